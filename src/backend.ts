@@ -0,0 +1,151 @@
+import { ConversationTurn, GroundingChunkItem, GroundingSupportItem, SearchResult } from './types.js';
+import { getConfig } from './config.js';
+import { GenerationOptions } from './generation.js';
+import { formatSourceList } from './citations.js';
+
+/**
+ * Per-call options passed through to a backend. Generation options arrive
+ * merged with the configured defaults; `model` is unset when the backend's
+ * default model should be used.
+ */
+export interface SearchOptions extends GenerationOptions {
+  /**
+   * Ground the answer with Google Search (default). Set to `false` for plain
+   * generation, as the planning and writing steps of deep research do.
+   */
+  grounding?: boolean;
+  /** Earlier turns of a conversational session, oldest first. */
+  history?: ConversationTurn[];
+  /**
+   * Receives the answer text as it is generated. When set, backends use the
+   * streaming endpoints; the returned result is still the complete answer.
+   */
+  onText?: (text: string) => void;
+  /**
+   * Aborted on cancellation or timeout. Backends pass it to the upstream
+   * request so the request itself is cancelled, not just abandoned.
+   */
+  signal?: AbortSignal;
+}
+
+/** The parts of a (streamed) generateContent response a backend reads. */
+export interface ResponseChunk {
+  text?: string;
+  groundingMetadata?: {
+    groundingChunks?: unknown[];
+    groundingSupports?: unknown[];
+  } | null;
+}
+
+export interface CollectedAnswer {
+  text: string;
+  sources: GroundingChunkItem[];
+  supports: GroundingSupportItem[];
+}
+
+/**
+ * Reads a streamed answer, forwarding each piece of text to `onText`.
+ * Grounding metadata arrives with the last chunks and describes the whole
+ * answer, so the latest chunks and supports seen are kept.
+ */
+export async function collectStream<T>(
+  stream: AsyncIterable<T>,
+  read: (chunk: T) => ResponseChunk,
+  onText?: (text: string) => void,
+): Promise<CollectedAnswer> {
+  const answer: CollectedAnswer = { text: '', sources: [], supports: [] };
+  for await (const streamed of stream) {
+    const chunk = read(streamed);
+    if (chunk.text) {
+      answer.text += chunk.text;
+      onText?.(chunk.text);
+    }
+    if (chunk.groundingMetadata?.groundingChunks?.length) {
+      answer.sources = chunk.groundingMetadata.groundingChunks as GroundingChunkItem[];
+    }
+    if (chunk.groundingMetadata?.groundingSupports?.length) {
+      answer.supports = chunk.groundingMetadata.groundingSupports as GroundingSupportItem[];
+    }
+  }
+  return answer;
+}
+
+export interface Content {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+/**
+ * Builds the Gemini `contents` for a query: the session history as
+ * alternating user and model turns, followed by the query. Each earlier
+ * answer carries its source list so follow-ups can refer to the sources.
+ */
+export function buildContents(query: string, history: ConversationTurn[] = []): Content[] {
+  const contents: Content[] = [];
+  for (const turn of history) {
+    const sources = turn.sources.length > 0 ? `\n\nSources:\n${formatSourceList(turn.sources).join('\n')}` : '';
+    contents.push(
+      { role: 'user', parts: [{ text: turn.query }] },
+      { role: 'model', parts: [{ text: turn.answer + sources }] }
+    );
+  }
+  contents.push({ role: 'user', parts: [{ text: query }] });
+  return contents;
+}
+
+export interface SearchBackend {
+  readonly name: string;
+  /** Model that answers the search unless `SearchOptions.model` is set. */
+  readonly model: string;
+  /** Authenticates and prepares the backend. Called once before the first search. */
+  initialize(): Promise<void>;
+  search(query: string, options: SearchOptions): Promise<SearchResult>;
+}
+
+export type SearchBackendFactory = () => SearchBackend;
+
+const registry = new Map<string, SearchBackendFactory>();
+
+export function registerBackend(name: string, factory: SearchBackendFactory): void {
+  registry.set(name, factory);
+}
+
+export function listBackends(): string[] {
+  return [...registry.keys()];
+}
+
+export function createBackend(name: string): SearchBackend {
+  const factory = registry.get(name);
+  if (!factory) {
+    throw new Error(`Unknown search backend "${name}". Available backends: ${listBackends().join(', ')}`);
+  }
+  return factory();
+}
+
+/**
+ * Picks the backend to use: `search_backend` (SEARCH_BACKEND), otherwise
+ * codeassist when OAuth or Application Default Credentials are requested or
+ * no API key is configured, else apikey.
+ */
+export async function resolveBackendName(): Promise<string> {
+  const config = await getConfig();
+  if (config.searchBackend) {
+    return config.searchBackend;
+  }
+  return config.useOAuth || config.useAdc || !config.apiKey ? 'codeassist' : 'apikey';
+}
+
+/**
+ * Backends to try in order: the primary backend followed by `search_fallback`
+ * (SEARCH_FALLBACK, comma separated).
+ */
+export async function resolveBackendChain(primary?: string): Promise<string[]> {
+  const chain = [primary ?? (await resolveBackendName())];
+  const { searchFallback } = await getConfig();
+  for (const name of searchFallback) {
+    if (!chain.includes(name)) {
+      chain.push(name);
+    }
+  }
+  return chain;
+}
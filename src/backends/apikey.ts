@@ -0,0 +1,76 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { SearchBackend, SearchOptions, buildContents, collectStream } from '../backend.js';
+import { getConfig } from '../config.js';
+import { GroundingChunkItem, GroundingSupportItem, SearchResult } from '../types.js';
+
+/** Gemini API via `@google/generative-ai`, authenticated with an API key. */
+export class ApiKeyBackend implements SearchBackend {
+  readonly name = 'apikey';
+  readonly model = 'gemini-2.0-flash-exp';
+  private genAI: GoogleGenerativeAI | null = null;
+
+  async initialize(): Promise<void> {
+    const { apiKey } = await getConfig();
+    if (!apiKey) {
+      throw new Error(
+        'Authentication required. Either set GOOGLE_API_KEY/GEMINI_API_KEY environment variable ' +
+        'or set USE_OAUTH=true to use Google login. ' +
+        'Get your API key from https://makersuite.google.com/app/apikey'
+      );
+    }
+
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult> {
+    const model = this.genAI!.getGenerativeModel({
+      model: options.model ?? this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        topK: options.topK,
+        topP: options.topP,
+        maxOutputTokens: options.maxOutputTokens,
+      },
+      systemInstruction: options.systemInstruction,
+    });
+    // 直前までのセッションの会話を履歴として渡す
+    const contents = buildContents(query, options.history);
+    const chat = model.startChat({
+      tools: options.grounding === false ? undefined : [{ googleSearchRetrieval: {} }],
+      history: contents.slice(0, -1),
+    });
+
+    if (options.onText) {
+      const { stream } = await chat.sendMessageStream(query, { signal: options.signal });
+      const answer = await collectStream(
+        stream,
+        (chunk) => ({
+          text: chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join(''),
+          groundingMetadata: chunk.candidates?.[0]?.groundingMetadata,
+        }),
+        options.onText
+      );
+      return {
+        query,
+        responseText: answer.text,
+        sources: answer.sources,
+        supports: answer.supports,
+        backend: this.name,
+        model: options.model ?? this.model,
+      };
+    }
+
+    const result = await chat.sendMessage(query, { signal: options.signal });
+    const response = result.response;
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+
+    return {
+      query,
+      responseText: response.text(),
+      sources: (groundingMetadata?.groundingChunks as GroundingChunkItem[] | undefined) ?? [],
+      supports: (groundingMetadata?.groundingSupports as GroundingSupportItem[] | undefined) ?? [],
+      backend: this.name,
+      model: options.model ?? this.model,
+    };
+  }
+}
@@ -0,0 +1,216 @@
+import { AuthClient } from 'google-auth-library';
+import { getAuthClient, usesApplicationDefaultCredentials } from '../oauth.js';
+import { setupUserProject, displaySetupInstructions } from '../setup.js';
+import { ResponseChunk, SearchBackend, SearchOptions, buildContents, collectStream } from '../backend.js';
+import { getConfig } from '../config.js';
+import {
+  AuthExpiredError,
+  ProjectNotConfiguredError,
+  SearchError,
+  UpstreamError,
+  errorFromResponse,
+  shouldFallback,
+  toSearchError,
+} from '../errors.js';
+import { GroundingChunkItem, GroundingSupportItem, SearchResult } from '../types.js';
+
+const CODE_ASSIST_ENDPOINT = 'https://cloudcode-pa.googleapis.com';
+const CODE_ASSIST_API_VERSION = 'v1internal';
+
+/** The parts of a `generateContent` response, or of one streamed event, that are read here. */
+interface CodeAssistResponse {
+  response?: { candidates?: CodeAssistCandidate[] };
+}
+
+interface CodeAssistCandidate {
+  content?: { parts?: Array<{ text?: string }> };
+  groundingMetadata?: ResponseChunk['groundingMetadata'];
+}
+
+/**
+ * Code Assist API (`v1internal:generateContent`), authenticated with Google
+ * OAuth or Application Default Credentials.
+ */
+export class CodeAssistBackend implements SearchBackend {
+  readonly name = 'codeassist';
+  readonly model = 'gemini-2.5-flash';
+  private authClient: AuthClient | null = null;
+  private projectId: string | null = null;
+
+  async initialize(): Promise<void> {
+    // ADC ならブラウザなしで認証できる。それ以外はブラウザなどで Google にログイン
+    const method = usesApplicationDefaultCredentials(await getConfig()) ? 'Application Default Credentials' : 'OAuth';
+    console.error(`Using ${method} authentication...`);
+
+    try {
+      try {
+        this.authClient = await getAuthClient();
+      } catch (error) {
+        throw asBackendFailure(error, (message, options) =>
+          new AuthExpiredError(`Code Assist sign-in failed: ${message}`, options));
+      }
+      console.error(`${method} authentication successful`);
+
+      // プロジェクト設定
+      try {
+        this.projectId = await setupUserProject(this.authClient);
+      } catch (error) {
+        throw asBackendFailure(error, (message, options) =>
+          new ProjectNotConfiguredError(`Code Assist project setup failed: ${message}`, options));
+      }
+    } catch (error) {
+      this.authClient = null;
+      console.error('Authentication failed:', error);
+      if (error instanceof Error && error.message.includes('GOOGLE_CLOUD_PROJECT')) {
+        displaySetupInstructions();
+      }
+      throw error;
+    }
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult> {
+    const projectId = this.projectId || (await getConfig()).projectId;
+
+    if (!projectId) {
+      throw new ProjectNotConfiguredError('Project ID not available. Please run setup first.');
+    }
+
+    const requestBody = {
+      model: options.model ?? this.model,
+      project: projectId,
+      request: {
+        contents: buildContents(query, options.history),
+        ...(options.grounding !== false && {
+          tools: [
+            {
+              googleSearch: {}
+            }
+          ],
+        }),
+        generationConfig: {
+          temperature: options.temperature,
+          topK: options.topK,
+          topP: options.topP,
+          maxOutputTokens: options.maxOutputTokens,
+        },
+        ...(options.systemInstruction && {
+          systemInstruction: { role: 'user', parts: [{ text: options.systemInstruction }] },
+        }),
+      }
+    };
+
+    // ストリーミング時は SSE で部分的な回答を受け取る
+    const method = options.onText ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    const response = await fetch(`${CODE_ASSIST_ENDPOINT}/${CODE_ASSIST_API_VERSION}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${(await this.authClient!.getAccessToken()).token}`,
+      },
+      body: JSON.stringify(requestBody),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const error = errorFromResponse(response.status, response.statusText, await response.text(), response.headers);
+      // Code Assist の 403 はアカウントやプロジェクトで使えないことを意味するので、次のバックエンドに任せる
+      if (response.status === 403 && !shouldFallback(error)) {
+        throw new ProjectNotConfiguredError(`Code Assist refused the request: ${error.message}`, { status: 403, cause: error });
+      }
+      throw error;
+    }
+
+    if (options.onText) {
+      const answer = await collectStream(
+        readServerSentEvents(response),
+        (event) => {
+          const candidate = event.response?.candidates?.[0];
+          return { text: extractResponseText(candidate), groundingMetadata: candidate?.groundingMetadata };
+        },
+        options.onText
+      );
+      return {
+        query,
+        responseText: answer.text,
+        sources: answer.sources,
+        supports: answer.supports,
+        backend: this.name,
+        model: options.model ?? this.model,
+      };
+    }
+
+    const result: CodeAssistResponse = await response.json();
+    const candidate = result.response?.candidates?.[0];
+    const groundingMetadata = candidate?.groundingMetadata;
+
+    return {
+      query,
+      responseText: extractResponseText(candidate),
+      sources: (groundingMetadata?.groundingChunks as GroundingChunkItem[] | undefined) ?? [],
+      supports: (groundingMetadata?.groundingSupports as GroundingSupportItem[] | undefined) ?? [],
+      backend: this.name,
+      model: options.model ?? this.model,
+    };
+  }
+}
+
+/**
+ * Failures to sign in or set up the project are specific to Code Assist, so
+ * they become errors that let the fallback chain try the next backend.
+ * Network errors are kept as they are.
+ */
+function asBackendFailure(
+  error: unknown,
+  wrap: (message: string, options: { status?: number; cause: unknown }) => SearchError,
+): SearchError {
+  const searchError = toSearchError(error);
+  if (shouldFallback(searchError) || (searchError instanceof UpstreamError && searchError.code !== undefined)) {
+    return searchError;
+  }
+  return wrap(searchError.message, { status: searchError.status, cause: error });
+}
+
+function extractResponseText(candidate: CodeAssistCandidate | undefined): string {
+  const parts = candidate?.content?.parts;
+  if (!Array.isArray(parts)) {
+    return '';
+  }
+  return parts.map((part) => part.text || '').join('');
+}
+
+/** Parses the JSON `data:` payload of each server-sent event in the response body. */
+async function* readServerSentEvents(response: Response): AsyncGenerator<CodeAssistResponse> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+  for await (const bytes of response.body ?? []) {
+    buffer += decoder.decode(bytes, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      } else if (line === '' && data.length > 0) {
+        yield parseEvent(data.join('\n'));
+        data = [];
+      }
+    }
+  }
+  if (buffer.startsWith('data:')) {
+    data.push(buffer.slice(5).trimStart());
+  }
+  if (data.length > 0) {
+    yield parseEvent(data.join('\n'));
+  }
+}
+
+function parseEvent(data: string): CodeAssistResponse {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new UpstreamError(`Upstream API error: malformed streamed response: ${(error as Error).message}`, {
+      cause: error,
+    });
+  }
+}
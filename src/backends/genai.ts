@@ -0,0 +1,67 @@
+import { GoogleGenAI } from '@google/genai';
+import { SearchBackend, SearchOptions, buildContents, collectStream } from '../backend.js';
+import { getConfig } from '../config.js';
+import { GroundingChunkItem, GroundingSupportItem, SearchResult } from '../types.js';
+
+/** Gemini API via the newer `@google/genai` SDK, authenticated with an API key. */
+export class GenAIBackend implements SearchBackend {
+  readonly name: string = 'genai';
+  readonly model = 'gemini-2.5-flash';
+  protected ai: GoogleGenAI | null = null;
+
+  async initialize(): Promise<void> {
+    const { apiKey } = await getConfig();
+    if (!apiKey) {
+      throw new Error(
+        'The genai backend requires GOOGLE_API_KEY or GEMINI_API_KEY. ' +
+        'Get your API key from https://makersuite.google.com/app/apikey'
+      );
+    }
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult> {
+    const params = {
+      model: options.model ?? this.model,
+      contents: buildContents(query, options.history),
+      config: {
+        tools: options.grounding === false ? undefined : [{ googleSearch: {} }],
+        temperature: options.temperature,
+        topK: options.topK,
+        topP: options.topP,
+        maxOutputTokens: options.maxOutputTokens,
+        systemInstruction: options.systemInstruction,
+        abortSignal: options.signal,
+      },
+    };
+
+    if (options.onText) {
+      const stream = await this.ai!.models.generateContentStream(params);
+      const answer = await collectStream(
+        stream,
+        (chunk) => ({ text: chunk.text, groundingMetadata: chunk.candidates?.[0]?.groundingMetadata }),
+        options.onText
+      );
+      return {
+        query,
+        responseText: answer.text,
+        sources: answer.sources,
+        supports: answer.supports,
+        backend: this.name,
+        model: options.model ?? this.model,
+      };
+    }
+
+    const response = await this.ai!.models.generateContent(params);
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+
+    return {
+      query,
+      responseText: response.text ?? '',
+      sources: (groundingMetadata?.groundingChunks as GroundingChunkItem[] | undefined) ?? [],
+      supports: (groundingMetadata?.groundingSupports as GroundingSupportItem[] | undefined) ?? [],
+      backend: this.name,
+      model: options.model ?? this.model,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { registerBackend } from '../backend.js';
+import { ApiKeyBackend } from './apikey.js';
+import { CodeAssistBackend } from './codeassist.js';
+import { GenAIBackend } from './genai.js';
+import { VertexBackend } from './vertex.js';
+
+registerBackend('apikey', () => new ApiKeyBackend());
+registerBackend('codeassist', () => new CodeAssistBackend());
+registerBackend('genai', () => new GenAIBackend());
+registerBackend('vertex', () => new VertexBackend());
+
+export { ApiKeyBackend, CodeAssistBackend, GenAIBackend, VertexBackend };
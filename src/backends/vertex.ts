@@ -0,0 +1,43 @@
+import { GoogleGenAI } from '@google/genai';
+import { AuthClient } from 'google-auth-library';
+import { getApplicationDefaultClient, getOauthClient, usesApplicationDefaultCredentials } from '../oauth.js';
+import { Config, getConfig } from '../config.js';
+import { ProjectNotConfiguredError } from '../errors.js';
+import { GenAIBackend } from './genai.js';
+
+/**
+ * Gemini on Vertex AI through `@google/genai` in Vertex mode, in the
+ * `project_id` project and `location` region. Authenticates with Application
+ * Default Credentials, or with the Google login when `use_oauth` is set and
+ * no ADC is configured. Searches and grounding work as in the genai backend.
+ */
+export class VertexBackend extends GenAIBackend {
+  readonly name: string = 'vertex';
+
+  async initialize(): Promise<void> {
+    const config = await getConfig();
+    if (!config.projectId) {
+      throw new ProjectNotConfiguredError('The vertex backend requires a Google Cloud project.', {
+        hint: 'Set GOOGLE_CLOUD_PROJECT to a project with the Vertex AI API enabled, ' +
+          'and GOOGLE_CLOUD_LOCATION to the region to use (default: global).',
+      });
+    }
+
+    const authClient = await this.getAuthClient(config);
+    console.error(`Using Vertex AI in ${config.projectId} (${config.location})`);
+
+    this.ai = new GoogleGenAI({
+      vertexai: true,
+      project: config.projectId,
+      location: config.location,
+      googleAuthOptions: { authClient },
+    });
+  }
+
+  /** The credentials Vertex AI is called with. */
+  protected getAuthClient(config: Config): Promise<AuthClient> {
+    return config.useOAuth && !usesApplicationDefaultCredentials(config)
+      ? getOauthClient()
+      : getApplicationDefaultClient();
+  }
+}
@@ -0,0 +1,65 @@
+import { SearchResult } from './types.js';
+import { SearchError, describeError, toSearchError } from './errors.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { OutputFormat, StructuredSearchResult, renderSearchResult, toStructuredResult } from './format.js';
+import { GroundingOptions } from './grounding.js';
+import type { SearchCallOptions, SearchService } from './search.js';
+
+export interface BatchSearchOptions extends SearchCallOptions {
+  /** Maximum number of searches in flight. */
+  concurrency?: number;
+  /** Runs before each search; throwing fails only that query (used for per-client quotas). */
+  beforeSearch?: (query: string) => void;
+}
+
+export type BatchSearchItem =
+  | { query: string; result: SearchResult; error?: undefined }
+  | { query: string; result?: undefined; error: SearchError };
+
+/**
+ * Runs several searches through `service` with bounded concurrency. Each
+ * query gets its own result or error, so one failure does not fail the batch.
+ */
+export async function searchBatch(
+  service: SearchService,
+  queries: readonly string[],
+  { concurrency = 3, beforeSearch, ...options }: BatchSearchOptions = {},
+): Promise<BatchSearchItem[]> {
+  return mapWithConcurrency(queries, concurrency, async (query): Promise<BatchSearchItem> => {
+    try {
+      beforeSearch?.(query);
+      return { query, result: await service.search(query, options) };
+    } catch (error) {
+      return { query, error: toSearchError(error) };
+    }
+  });
+}
+
+export type StructuredBatchItem =
+  | { query: string; result: StructuredSearchResult }
+  | { query: string; error: { type: string; message: string } };
+
+export function toStructuredBatch(items: BatchSearchItem[], options: GroundingOptions = {}): StructuredBatchItem[] {
+  return items.map((item) =>
+    item.error
+      ? { query: item.query, error: { type: item.error.name, message: item.error.message } }
+      : { query: item.query, result: toStructuredResult(item.result, options) }
+  );
+}
+
+/** Renders each query's result or error under a `## [n/total] query` heading. */
+export function renderBatch(items: BatchSearchItem[], format: OutputFormat, options: GroundingOptions = {}): string {
+  if (format === 'json') {
+    return JSON.stringify(toStructuredBatch(items, options), null, 2);
+  }
+  return items
+    .map((item, i) => {
+      const body = item.error
+        ? `Error: ${describeError(item.error)}`
+        : item.result.responseText.trim()
+          ? renderSearchResult(item.result, format, options)
+          : `No search results or information found for query: "${item.query}"`;
+      return `## [${i + 1}/${items.length}] ${item.query}\n\n${body}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,152 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import { SearchResult } from './types.js';
+import { getConfig } from './config.js';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+
+export interface SearchCacheOptions {
+  dir?: string;
+  /** Entries older than this are treated as misses. */
+  ttlSeconds?: number;
+  /** Least recently used entries beyond this count are evicted. */
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  result: SearchResult;
+}
+
+export function getDefaultCacheDir(): string {
+  return path.join(os.homedir(), '.google-web-search', 'cache');
+}
+
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Builds a cache key from the normalized query, the backend and model that
+ * would answer it, and the per-call search options.
+ */
+export function createCacheKey(query: string, backend: string, model: string, options: object = {}): string {
+  const sortedOptions = Object.fromEntries(
+    Object.entries(options)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  return JSON.stringify([normalizeQuery(query), backend, model, sortedOptions]);
+}
+
+/**
+ * On-disk search result cache under ~/.google-web-search/cache. Each entry
+ * is one JSON file; the file's mtime records its last use for LRU eviction.
+ */
+export class SearchCache {
+  readonly dir: string;
+  readonly ttlSeconds: number;
+  readonly maxEntries: number;
+
+  constructor(options: SearchCacheOptions = {}) {
+    this.dir = options.dir ?? getDefaultCacheDir();
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /** Creates the cache described by the `cache_*` settings, or `null` when caching is disabled. */
+  static async fromConfig(): Promise<SearchCache | null> {
+    const config = await getConfig();
+    if (!config.cacheEnabled) {
+      return null;
+    }
+    return new SearchCache({
+      dir: config.cacheDir,
+      ttlSeconds: config.cacheTtl,
+      maxEntries: config.cacheMaxEntries,
+    });
+  }
+
+  async get(key: string): Promise<SearchResult | null> {
+    const filePath = this.entryPath(key);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (_) {
+      return null;
+    }
+
+    if (entry.key !== key || Date.now() - entry.createdAt > this.ttlSeconds * 1000) {
+      await fs.rm(filePath, { force: true });
+      return null;
+    }
+
+    // Mark as recently used
+    const now = new Date();
+    await fs.utimes(filePath, now, now).catch(() => {});
+    return entry.result;
+  }
+
+  async set(key: string, result: SearchResult): Promise<void> {
+    const entry: CacheEntry = { key, createdAt: Date.now(), result };
+    try {
+      // キャッシュにはクエリと回答がそのまま残るので、本人以外は読めないようにする
+      await fs.mkdir(this.dir, { recursive: true, mode: 0o700 });
+      const filePath = this.entryPath(key);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(entry), { mode: 0o600 });
+      await fs.rename(tmpPath, filePath);
+      await this.evict();
+    } catch (error) {
+      console.error('Warning: Could not write search cache:', error);
+    }
+  }
+
+  /** Removes every cached entry and returns how many were removed. */
+  async clear(): Promise<number> {
+    const files = await this.listEntries();
+    await Promise.all(files.map((file) => fs.rm(file.path, { force: true })));
+    return files.length;
+  }
+
+  private async evict(): Promise<void> {
+    const files = await this.listEntries();
+    if (files.length <= this.maxEntries) {
+      return;
+    }
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    const excess = files.slice(0, files.length - this.maxEntries);
+    await Promise.all(excess.map((file) => fs.rm(file.path, { force: true })));
+  }
+
+  private async listEntries(): Promise<Array<{ path: string; mtimeMs: number }>> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (_) {
+      return [];
+    }
+    const entries = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map(async (name) => {
+          const filePath = path.join(this.dir, name);
+          try {
+            return { path: filePath, mtimeMs: (await fs.stat(filePath)).mtimeMs };
+          } catch (_) {
+            return null;
+          }
+        })
+    );
+    return entries.filter((entry): entry is { path: string; mtimeMs: number } => entry !== null);
+  }
+
+  private entryPath(key: string): string {
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.dir, `${hash}.json`);
+  }
+}
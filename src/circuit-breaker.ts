@@ -0,0 +1,69 @@
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold?: number;
+  /** How long an open circuit rejects traffic before allowing a trial request. */
+  cooldownMs?: number;
+}
+
+/**
+ * Minimal circuit breaker: after `failureThreshold` consecutive failures the
+ * circuit opens for `cooldownMs`, then a single trial request is let through
+ * (half-open). A success closes it again; a failure reopens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 2;
+    this.cooldownMs = options.cooldownMs ?? 60_000;
+  }
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent now. While half-open only the first caller
+   * gets true, and it must report the outcome with one of the record methods.
+   */
+  canRequest(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        if (this.trialInFlight) {
+          return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /** The request ended without showing whether the backend works (e.g. it was cancelled). */
+  recordIgnored(): void {
+    this.trialInFlight = false;
+  }
+}
@@ -0,0 +1,124 @@
+import { GroundingChunkItem, GroundingSupportItem, SearchResult } from './types.js';
+import { TextRange, createSegmentResolver } from './offsets.js';
+import { GroundingOptions, claimsBySource, formatClaim, isLowConfidence, maxConfidence } from './grounding.js';
+
+export interface CitationOptions {
+  formatMarker?: (sourceNumber: number) => string;
+  minConfidence?: number;
+  lowConfidence?: GroundingOptions['lowConfidence'];
+}
+
+export function formatSourceList(sources: GroundingChunkItem[]): string[] {
+  return sources.map((source, index) => {
+    const title = source.web?.title || 'Untitled';
+    const uri = source.web?.uri || 'No URI';
+    return `[${index + 1}] ${title} (${uri})`;
+  });
+}
+
+/**
+ * Appends citation markers after each supported segment. Segment offsets are
+ * UTF-8 byte offsets (see `createSegmentResolver`); supports ending at the
+ * same place share one deduplicated marker. Low-confidence segments are
+ * either annotated or removed, depending on `lowConfidence`.
+ */
+export function insertCitationMarkers(
+  text: string,
+  supports: GroundingSupportItem[],
+  options: CitationOptions = {},
+): string {
+  const formatMarker = options.formatMarker ?? ((n: number) => `[${n}]`);
+  const resolveSegment = createSegmentResolver(text);
+  const removals: TextRange[] = [];
+  const insertions = new Map<number, { sourceNumbers: number[]; lowScores: number[]; strong: boolean }>();
+
+  supports.forEach((support: GroundingSupportItem) => {
+    if (!support.segment || !support.groundingChunkIndices) {
+      return;
+    }
+    const { start, end } = resolveSegment(support.segment);
+    const low = isLowConfidence(support, options.minConfidence);
+
+    if (low && options.lowConfidence === 'drop') {
+      // Take the surrounding space with the claim so no double or trailing space is left.
+      let removeStart = start;
+      let removeEnd = end;
+      while (text[removeEnd] === ' ') removeEnd++;
+      if (removeEnd === text.length) {
+        while (removeStart > 0 && text[removeStart - 1] === ' ') removeStart--;
+      }
+      removals.push({ start: removeStart, end: removeEnd });
+      return;
+    }
+
+    const insertion = insertions.get(end) ?? { sourceNumbers: [], lowScores: [], strong: false };
+    support.groundingChunkIndices.forEach((chunkIndex: number) => {
+      if (!insertion.sourceNumbers.includes(chunkIndex + 1)) {
+        insertion.sourceNumbers.push(chunkIndex + 1);
+      }
+    });
+    if (low) {
+      insertion.lowScores.push(maxConfidence(support)!);
+    } else {
+      insertion.strong = true;
+    }
+    insertions.set(end, insertion);
+  });
+
+  // Markers inside a removed segment go with it.
+  const edits: Array<TextRange & { replacement: string }> = removals.map((removal) => ({ ...removal, replacement: '' }));
+  insertions.forEach((insertion, index) => {
+    if (removals.some((r) => index > r.start && index <= r.end)) {
+      return;
+    }
+    let citationMarker = insertion.sourceNumbers.map(formatMarker).join('');
+    if (!insertion.strong && insertion.lowScores.length > 0) {
+      citationMarker += ` (low confidence: ${Math.max(...insertion.lowScores).toFixed(2)})`;
+    }
+    edits.push({ start: index, end: index, replacement: citationMarker });
+  });
+
+  // Apply from the end so earlier offsets stay valid.
+  edits.sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let modifiedText = text;
+  let floor = Infinity;
+  edits.forEach((edit) => {
+    // Overlapping removals: only remove what has not been removed already.
+    const end = Math.min(edit.end, floor);
+    if (edit.end > edit.start) {
+      if (end <= edit.start) {
+        return;
+      }
+      floor = edit.start;
+    }
+    modifiedText = modifiedText.slice(0, edit.start) + edit.replacement + modifiedText.slice(Math.max(edit.start, end));
+  });
+  return modifiedText;
+}
+
+/**
+ * Renders a search result as plain text: the answer with `[n]` citation
+ * markers followed by a numbered "Sources:" list.
+ */
+export function formatSearchResult(result: SearchResult, options: GroundingOptions = {}): string {
+  let modifiedResponseText = result.responseText;
+
+  if (result.sources.length > 0) {
+    if (result.supports.length > 0) {
+      modifiedResponseText = insertCitationMarkers(modifiedResponseText, result.supports, options);
+    }
+
+    let sourceList = formatSourceList(result.sources);
+    if (options.showGrounding) {
+      const claims = claimsBySource(result);
+      sourceList = sourceList.map((line, index) => {
+        const backed = claims.get(index) ?? [];
+        return [line, ...backed.map((claim) => `    - ${formatClaim(claim)}`)].join('\n');
+      });
+    }
+    modifiedResponseText += '\n\nSources:\n' + sourceList.join('\n');
+  }
+
+  return `Web search results for "${result.query}":\n\n${modifiedResponseText}`;
+}
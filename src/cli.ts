@@ -1,234 +1,513 @@
 #!/usr/bin/env node
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-import { OAuth2Client } from 'google-auth-library';
-import { getOauthClient } from './oauth.js';
-import { setupUserProject, displaySetupInstructions } from './setup.js';
-
-interface GroundingChunkWeb {
-  uri?: string;
-  title?: string;
-}
+import { parseArgs } from 'node:util';
+import { promises as fs } from 'node:fs';
+import {
+  AuthExpiredError,
+  SearchCache,
+  SearchFilters,
+  SearchService,
+  TimeRange,
+  deepResearch,
+  describeError,
+  renderResearchReport,
+  searchBatch,
+  toSearchError,
+} from './search.js';
+import { OutputFormat, renderSearchResult } from './format.js';
+import { formatSourceList } from './citations.js';
+import { renderBatch } from './batch.js';
+import { SourceFetcher, renderFetchedPage } from './fetch.js';
+import { AuthClient, OAuth2Client } from 'google-auth-library';
+import {
+  clearCachedCredentials,
+  getApplicationDefaultClient,
+  getCachedOauthClient,
+  loginWithOauth,
+  usesApplicationDefaultCredentials,
+} from './oauth.js';
+import { getProfileProjectId, loadCodeAssist, setupUserProject } from './setup.js';
+import { CredentialStore, validateProfile } from './credentials.js';
+import {
+  CONFIG_SCHEMA,
+  ConfigName,
+  PROJECT_CONFIG_FILENAME,
+  coerceConfigValue,
+  findConfigName,
+  formatConfigValue,
+  getConfig,
+  getLoadedConfig,
+  getUserConfigPath,
+  loadConfig,
+  writeConfigFile,
+} from './config.js';
 
-interface GroundingChunkItem {
-  web?: GroundingChunkWeb;
+interface CLISearchOptions extends SearchFilters {
+  format: OutputFormat;
+  noCache: boolean;
+  /** Print the answer as it is generated. */
+  stream: boolean;
+  /** Aborted by Ctrl+C. */
+  signal: AbortSignal;
 }
 
-
-
 class GoogleSearchCLI {
-  private genAI: GoogleGenerativeAI | null = null;
-  private model: GenerativeModel | null = null;
-  private oauthClient: OAuth2Client | null = null;
-  private projectId: string | null = null;
-
-  private async initializeGeminiClient() {
-    const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
-    const useOAuth = process.env.USE_OAUTH === 'true' || !apiKey;
-    
-    if (useOAuth) {
-      // OAuth using browser authentication
-      console.error('Using OAuth authentication...');
-      
-      try {
-        this.oauthClient = await getOauthClient();
-        console.error('OAuth authentication successful');
-        
-        // プロジェクト設定
-        this.projectId = await setupUserProject(this.oauthClient);
-      } catch (error) {
-        console.error('OAuth authentication failed:', error);
-        if (error instanceof Error && error.message.includes('GOOGLE_CLOUD_PROJECT')) {
-          displaySetupInstructions();
-        }
-        throw error;
-      }
-    } else if (apiKey) {
-      // API Key Authenticate
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({ 
-        model: 'gemini-2.0-flash-exp',
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-        }
-      });
-    } else {
-      throw new Error(
-        'Authentication required. Either set GOOGLE_API_KEY/GEMINI_API_KEY environment variable ' +
-        'or set USE_OAUTH=true to use Google login. ' +
-        'Get your API key from https://makersuite.google.com/app/apikey'
-      );
-    }
-  }
+  private searchService = new SearchService();
 
-  async search(query: string): Promise<void> {
+  async search(query: string, options: CLISearchOptions): Promise<void> {
     try {
-      if (!this.model && !this.oauthClient) {
-        await this.initializeGeminiClient();
-      }
-
       if (!query || query.trim() === '') {
         console.error('Error: The query parameter cannot be empty.');
         process.exit(1);
       }
 
-      let responseText: string;
-      let sources: GroundingChunkItem[] | undefined;
-      let groundingSupports: any[] | undefined;
-
-      if (this.oauthClient) {
-        // Use Code Assist API for OAuth authentication
-        const result = await this.callCodeAssistAPI(query);
-        responseText = result.responseText;
-        sources = result.sources;
-        groundingSupports = result.groundingSupports;
-      } else if (this.model) {
-        // Use Google Generative AI for API key authentication
-        const chat = this.model.startChat({
-          tools: [{ googleSearchRetrieval: {} }],
-        });
-
-        const result = await chat.sendMessage(query);
-        const response = result.response;
-        responseText = response.text();
-        
-        const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-        sources = groundingMetadata?.groundingChunks as GroundingChunkItem[] | undefined;
-        groundingSupports = groundingMetadata?.groundingSupports as any[] | undefined;
-      } else {
-        throw new Error('No authentication method available');
+      const { format, stream, ...searchOptions } = options;
+      let streamed = false;
+      const onText = stream
+        ? (text: string) => {
+            streamed = true;
+            process.stdout.write(text);
+          }
+        : undefined;
+      const result = await this.searchService.search(query, { ...searchOptions, onText });
+
+      if (streamed) {
+        // 回答は表示済みなので、出典の一覧だけを追加する
+        process.stdout.write('\n');
+        if (result.sources.length > 0) {
+          console.log(`\nSources:\n${formatSourceList(result.sources).join('\n')}`);
+        }
+        return;
       }
 
-      if (!responseText || !responseText.trim()) {
+      if (options.format !== 'json' && (!result.responseText || !result.responseText.trim())) {
         console.log(`No search results or information found for query: "${query}"`);
         return;
       }
 
-      let modifiedResponseText = responseText;
-      const sourceListFormatted: string[] = [];
-
-      if (sources && sources.length > 0) {
-        sources.forEach((source: GroundingChunkItem, index: number) => {
-          const title = source.web?.title || 'Untitled';
-          const uri = source.web?.uri || 'No URI';
-          sourceListFormatted.push(`[${index + 1}] ${title} (${uri})`);
-        });
-
-        if (groundingSupports && groundingSupports.length > 0) {
-          const insertions: Array<{ index: number; marker: string }> = [];
-          groundingSupports.forEach((support: any) => {
-            if (support.segment && support.groundingChunkIndices) {
-              const citationMarker = support.groundingChunkIndices
-                .map((chunkIndex: number) => `[${chunkIndex + 1}]`)
-                .join('');
-              insertions.push({
-                index: support.segment.endIndex,
-                marker: citationMarker,
-              });
-            }
-          });
+      console.log(renderSearchResult(result, options.format));
+    } catch (error) {
+      console.error(`Error during web search for query "${query}": ${describeError(error)}`);
+      process.exit(toSearchError(error).exitCode);
+    }
+  }
+
+  async research(question: string, options: CLISearchOptions): Promise<void> {
+    try {
+      if (!question || question.trim() === '') {
+        console.error('Error: The question cannot be empty.');
+        process.exit(1);
+      }
+      const { researchMaxSteps, researchMaxQueries, batchConcurrency } = await getConfig();
+      const { format, stream, ...searchOptions } = options;
+      const report = await deepResearch(this.searchService, question, {
+        ...searchOptions,
+        maxSteps: researchMaxSteps,
+        maxQueries: researchMaxQueries,
+        concurrency: batchConcurrency,
+      });
+      console.log(renderResearchReport(report, format));
+    } catch (error) {
+      console.error(`Error during deep research for "${question}": ${describeError(error)}`);
+      process.exit(toSearchError(error).exitCode);
+    }
+  }
+
+  /** Runs every query in `file` (one per line, `#` comments allowed) as a batch. */
+  async searchBatch(file: string, options: CLISearchOptions): Promise<void> {
+    const queries = (await fs.readFile(file, 'utf-8'))
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'));
+    if (queries.length === 0) {
+      console.error(`Error: No queries found in ${file}`);
+      process.exit(2);
+    }
 
-          insertions.sort((a, b) => b.index - a.index);
+    const { batchConcurrency } = await getConfig();
+    const { format, stream, ...searchOptions } = options;
+    const items = await searchBatch(this.searchService, queries, { ...searchOptions, concurrency: batchConcurrency });
+
+    console.log(renderBatch(items, format));
+
+    // 失敗したクエリがあれば最初のエラーの終了コードで終了する
+    const firstError = items.find((item) => item.error)?.error;
+    if (firstError) {
+      console.error(`${items.filter((item) => item.error).length} of ${items.length} searches failed`);
+      process.exit(firstError.exitCode);
+    }
+  }
+}
+
+function printUsage() {
+  console.log('Usage: gsearch [options] <query>');
+  console.log('       gsearch [options] --batch <file>');
+  console.log('       gsearch [options] --research <question>');
+  console.log('       gsearch fetch <url>');
+  console.log('       gsearch auth login | logout | status [--profile <name>]');
+  console.log('       gsearch auth switch <profile>');
+  console.log('       gsearch cache clear');
+  console.log('       gsearch config list');
+  console.log('       gsearch config get <key>');
+  console.log('       gsearch config set <key> <value> [--local]');
+  console.log('       gsearch config unset <key> [--local]');
+  console.log('Example: gsearch "latest news about AI"');
+  console.log('');
+  console.log('Options:');
+  console.log('  --json                 Print the answer, sources and grounding supports as JSON');
+  console.log('  --no-cache             Skip cached results and run a fresh search');
+  console.log('  --no-stream            Wait for the whole answer and print it with inline citations');
+  console.log('  --timeout <ms>         Give up on a search after <ms> milliseconds (0 for no limit)');
+  console.log('  --batch <file>         Run every query in <file> (one per line) in parallel');
+  console.log('  --research             Research the question in depth over several searches and write a report');
+  console.log('  --site <domain>        Only use sources from this domain (repeatable)');
+  console.log('  --exclude-site <domain> Never use sources from this domain (repeatable)');
+  console.log('  --time-range <range>   Only use sources from the last day, week, month or year');
+  console.log('  --language <code>      Answer language and preferred source language, e.g. ja');
+  console.log('  --region <code>        Two-letter country code to focus on, e.g. JP');
+  console.log('  --backend <name>       Search backend (apikey, codeassist, genai, vertex)');
+  console.log('  --model <name>         Gemini model');
+  console.log('  --temperature <n>      Sampling temperature');
+  console.log('  --project <id>         Google Cloud project for the Code Assist API');
+  console.log('  --oauth-flow <flow>    Google login: browser, manual (paste the code) or device');
+  console.log('  --profile <name>       Google login profile to use (default: default)');
+  console.log(`  --local                With config set/unset, write ./${PROJECT_CONFIG_FILENAME} instead of the user config`);
+  console.log('');
+  console.log('Exit codes:');
+  console.log('  1  General error');
+  console.log('  2  Invalid argument or configuration');
+  console.log('  3  Quota or rate limit exceeded');
+  console.log('  4  Authentication failed or expired');
+  console.log('  5  Google Cloud project not configured');
+  console.log('  6  Upstream API or network failure');
+  console.log('  7  Timed out');
+  console.log('  130  Cancelled with Ctrl+C');
+}
+
+/**
+ * Aborts the returned signal on the first Ctrl+C, cancelling the running
+ * request; a second Ctrl+C exits immediately.
+ */
+function cancelOnInterrupt(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  return controller.signal;
+}
 
-          const responseChars = modifiedResponseText.split('');
-          insertions.forEach((insertion) => {
-            responseChars.splice(insertion.index, 0, insertion.marker);
+async function runCacheCommand(action: string | undefined) {
+  if (action !== 'clear') {
+    console.error(`Unknown cache command: ${action ?? '(none)'}`);
+    console.error('Usage: gsearch cache clear');
+    process.exit(1);
+  }
+  const cache = new SearchCache({ dir: (await getConfig()).cacheDir });
+  const removed = await cache.clear();
+  console.log(`Removed ${removed} cached search result(s) from ${cache.dir}`);
+}
+
+async function runFetchCommand(url: string, signal: AbortSignal) {
+  try {
+    const fetcher = await SourceFetcher.fromConfig();
+    console.log(renderFetchedPage(await fetcher.fetch(url, { signal })));
+  } catch (error) {
+    console.error(`Error fetching ${url}: ${describeError(error)}`);
+    process.exit(toSearchError(error).exitCode);
+  }
+}
+
+async function runAuthCommand(action: string | undefined, args: string[]) {
+  const usage = 'Usage: gsearch auth login | logout | status [--profile <name>] | switch <profile>';
+  const { config, sources } = await getLoadedConfig();
+  const profile = config.authProfile;
+  const profileFlag = profile === 'default' ? '' : ` --profile ${profile}`;
+
+  try {
+    switch (action) {
+      case 'login': {
+        const client = await loginWithOauth();
+        console.log(`Logged in to profile "${profile}".`);
+        try {
+          console.log(`Code Assist project: ${await setupUserProject(client)}`);
+        } catch (error) {
+          console.error(`Warning: No Code Assist project is set up yet: ${describeError(error)}`);
+        }
+        return;
+      }
+      case 'logout': {
+        const client = await getCachedOauthClient(profile).catch(() => null);
+        const token = client?.credentials.refresh_token ?? client?.credentials.access_token;
+        if (token) {
+          // Google 側でもトークンを無効にする。失敗してもローカルの認証情報は削除する
+          await client!.revokeToken(token).catch((error) => {
+            console.error(`Warning: Could not revoke the token at Google: ${error instanceof Error ? error.message : error}`);
           });
-          modifiedResponseText = responseChars.join('');
         }
-
-        if (sourceListFormatted.length > 0) {
-          modifiedResponseText += '\n\nSources:\n' + sourceListFormatted.join('\n');
+        const removed = await clearCachedCredentials(profile);
+        console.log(removed ? `Logged out of profile "${profile}".` : `Profile "${profile}" is not logged in.`);
+        return;
+      }
+      case 'status':
+        if (usesApplicationDefaultCredentials(config)) {
+          await printApplicationDefaultStatus(config.applicationCredentials);
+        } else {
+          await printAuthStatus(profile, profileFlag);
+        }
+        return;
+      case 'switch': {
+        if (args[0] === undefined) {
+          console.error(usage);
+          process.exit(2);
         }
+        const target = validateProfile(args[0]);
+        if (!(await (await CredentialStore.fromConfig()).list()).includes(target)) {
+          console.error(`Profile "${target}" is not logged in. Run: gsearch auth login --profile ${target}`);
+          process.exit(2);
+        }
+        await writeConfigFile({ auth_profile: target });
+        console.log(`Switched to profile "${target}" in ${getUserConfigPath()}`);
+        if (sources.authProfile === 'env') {
+          console.error(`Note: OAUTH_PROFILE still selects profile "${profile}" here.`);
+        }
+        return;
       }
-
-      console.log(`Web search results for "${query}":\n\n${modifiedResponseText}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`Error during web search for query "${query}": ${errorMessage}`);
-      process.exit(1);
+      default:
+        console.error(`Unknown auth command: ${action ?? '(none)'}`);
+        console.error(usage);
+        process.exit(1);
     }
+  } catch (error) {
+    console.error(`Error: ${describeError(error)}`);
+    process.exit(toSearchError(error).exitCode);
   }
+}
 
-  private async callCodeAssistAPI(query: string): Promise<{
-    responseText: string;
-    sources?: GroundingChunkItem[];
-    groundingSupports?: any[];
-  }> {
-    if (!this.oauthClient) {
-      throw new Error('OAuth client not initialized');
-    }
+/** Prints the profile's account, token and Code Assist project. Exits with 4 when it is not usable. */
+async function printAuthStatus(profile: string, profileFlag: string) {
+  const store = await CredentialStore.fromConfig();
+  const profiles = await store.list();
+  console.log(`Profile: ${profile}`);
+  console.log(`Profiles: ${profiles.map((name) => (name === profile ? `${name} (active)` : name)).join(', ') || '(none)'}`);
 
-    const projectId = this.projectId || process.env.GOOGLE_CLOUD_PROJECT;
-    
-    if (!projectId) {
-      throw new Error('Project ID not available. Please run setup first.');
+  const client = await getCachedOauthClient(profile);
+  if (!client) {
+    console.log(`Status: not logged in. Run: gsearch auth login${profileFlag}`);
+    process.exitCode = 4;
+    return;
+  }
+  console.log(`Credentials: ${store.getPath(profile)}`);
+
+  let token: string | null | undefined;
+  try {
+    token = (await client.getAccessToken()).token;
+  } catch (error) {
+    const searchError = toSearchError(error);
+    console.log(
+      searchError instanceof AuthExpiredError
+        ? `Status: login expired or revoked. Run: gsearch auth login${profileFlag}`
+        : `Status: could not refresh the access token: ${searchError.message}`
+    );
+    process.exitCode = searchError.exitCode;
+    return;
+  }
+  const info = await client.getTokenInfo(token!);
+  console.log('Status: logged in');
+  console.log(`Account: ${info.email ?? '(unknown; log in again to show it)'}`);
+  console.log(`Access token expires: ${new Date(info.expiry_date).toLocaleString()} (refreshed automatically)`);
+  console.log(`Scopes: ${info.scopes.join(', ')}`);
+  await printCodeAssistStatus(client, `run gsearch auth login${profileFlag}`);
+}
+
+/** Prints the Application Default Credentials in use. Exits with 4 when they are not usable. */
+async function printApplicationDefaultStatus(credentialsPath: string | undefined) {
+  console.log(`Credentials: Application Default Credentials (${credentialsPath ?? 'gcloud or metadata server'})`);
+  let client: AuthClient;
+  try {
+    client = await getApplicationDefaultClient();
+  } catch (error) {
+    console.log(`Status: ${describeError(error)}`);
+    process.exitCode = toSearchError(error).exitCode;
+    return;
+  }
+  console.log('Status: authenticated');
+  // 外部アカウントのトークンは tokeninfo で確認できないことがある
+  const token = (await client.getAccessToken()).token!;
+  const info = await new OAuth2Client().getTokenInfo(token).catch(() => null);
+  console.log(`Account: ${info?.email ?? '(unknown)'}`);
+  await printCodeAssistStatus(client, 'set up by the first search');
+}
+
+/** Prints the Code Assist project and tier of the account; `setupHint` tells how to onboard it. */
+async function printCodeAssistStatus(client: AuthClient, setupHint: string) {
+  const projectId = await getProfileProjectId();
+  try {
+    const codeAssist = await loadCodeAssist(client, projectId);
+    const tier = codeAssist.currentTier?.name ?? codeAssist.currentTier?.id ?? codeAssist.userTier;
+    console.log(`Code Assist project: ${codeAssist.cloudaicompanionProject ?? projectId ?? '(none)'}`);
+    console.log(
+      codeAssist.onboardingRequired
+        ? `User tier: (not set up; ${setupHint})`
+        : `User tier: ${tier ?? '(unknown)'}`
+    );
+  } catch (error) {
+    console.log(`Code Assist project: ${projectId ?? '(none)'} (could not be checked: ${toSearchError(error).message})`);
+  }
+}
+
+async function runConfigCommand(action: string | undefined, args: string[], local: boolean) {
+  const usage = 'Usage: gsearch config list | get <key> | set <key> <value> [--local] | unset <key> [--local]';
+  const name = args[0] !== undefined ? findConfigName(args[0]) : undefined;
+  if (action !== 'list' && !name) {
+    console.error(args[0] !== undefined ? `Unknown config key: ${args[0]}` : usage);
+    process.exit(2);
+  }
+  const filePath = local ? PROJECT_CONFIG_FILENAME : getUserConfigPath();
+
+  switch (action) {
+    case 'list': {
+      const { config, sources, warnings, projectConfigPath } = await loadConfig();
+      for (const warning of warnings) {
+        console.error(`Warning: ${warning}`);
+      }
+      console.log(`# User config: ${getUserConfigPath()}`);
+      console.log(`# Project config: ${projectConfigPath ?? '(none)'}`);
+      for (const configName of Object.keys(CONFIG_SCHEMA) as ConfigName[]) {
+        const value = formatConfigValue(configName, config[configName]);
+        const source = sources[configName] ? ` (${sources[configName]})` : '';
+        console.log(`${CONFIG_SCHEMA[configName].key} = ${value}${source}`);
+      }
+      return;
     }
-    
-    const endpoint = 'https://cloudcode-pa.googleapis.com/v1internal:generateContent';
-    
-    const requestBody = {
-      model: 'gemini-2.5-flash',
-      project: projectId,
-      request: {
-        contents: [
-          {
-            role: 'user',
-            parts: [{ text: query }]
-          }
-        ],
-        tools: [
-          {
-            googleSearch: {}
-          }
-        ]
+    case 'get': {
+      const config = await getConfig();
+      const value = config[name!];
+      // 値が未設定の場合は何も出力しない
+      if (value !== undefined) {
+        console.log(name === 'clients' ? formatConfigValue(name, value) : Array.isArray(value) ? value.join(',') : String(value));
       }
-    };
-
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${(await this.oauthClient.getAccessToken()).token}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('API Error Response:', errorText);
-      throw new Error(`Code Assist API error: ${response.status} ${response.statusText} - ${errorText}`);
+      return;
     }
-
-    const result = await response.json();
-    const responseText = result.response?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    const groundingMetadata = result.response?.candidates?.[0]?.groundingMetadata;
-    
-    return {
-      responseText,
-      sources: groundingMetadata?.groundingChunks,
-      groundingSupports: groundingMetadata?.groundingSupports,
-    };
+    case 'set': {
+      if (args[1] === undefined) {
+        console.error(usage);
+        process.exit(2);
+      }
+      if (local && !CONFIG_SCHEMA[name!].project) {
+        console.error(`${args[0]} cannot be set in ${PROJECT_CONFIG_FILENAME}; set it without --local instead.`);
+        process.exit(2);
+      }
+      const raw = args.slice(1).join(' ');
+      const { value, error } = coerceConfigValue(name!, raw);
+      if (error) {
+        console.error(`Invalid value for ${args[0]}: ${error}`);
+        process.exit(2);
+      }
+      // clients は snake_case のキーのまま保存する
+      await writeConfigFile({ [CONFIG_SCHEMA[name!].key]: name === 'clients' ? JSON.parse(raw) : value }, filePath);
+      console.log(`Set ${args[0]} = ${formatConfigValue(name!, value)} in ${filePath}`);
+      return;
+    }
+    case 'unset':
+      await writeConfigFile({ [CONFIG_SCHEMA[name!].key]: undefined }, filePath);
+      console.log(`Removed ${args[0]} from ${filePath}`);
+      return;
+    default:
+      console.error(`Unknown config command: ${action ?? '(none)'}`);
+      console.error(usage);
+      process.exit(1);
   }
 }
 
 async function main() {
-  const args = process.argv.slice(2);
-  
-  if (args.length === 0) {
-    console.log('Usage: gsearch <query>');
-    console.log('Example: gsearch "latest news about AI"');
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      json: { type: 'boolean', default: false },
+      'no-cache': { type: 'boolean', default: false },
+      'no-stream': { type: 'boolean', default: false },
+      timeout: { type: 'string' },
+      backend: { type: 'string' },
+      model: { type: 'string' },
+      temperature: { type: 'string' },
+      project: { type: 'string' },
+      'oauth-flow': { type: 'string' },
+      profile: { type: 'string' },
+      local: { type: 'boolean', default: false },
+      batch: { type: 'string' },
+      research: { type: 'boolean', default: false },
+      site: { type: 'string', multiple: true },
+      'exclude-site': { type: 'string', multiple: true },
+      'time-range': { type: 'string' },
+      language: { type: 'string' },
+      region: { type: 'string' },
+    },
+    allowPositionals: true,
+  });
+
+  if (positionals.length === 0 && values.batch === undefined) {
+    printUsage();
     process.exit(1);
   }
 
-  const query = args.join(' ');
+  if (positionals[0] === 'config') {
+    await runConfigCommand(positionals[1], positionals.slice(2), values.local);
+    return;
+  }
+
+  const { warnings } = await loadConfig({
+    overrides: {
+      searchBackend: values.backend,
+      model: values.model,
+      temperature: values.temperature,
+      projectId: values.project,
+      searchTimeoutMs: values.timeout,
+      oauthFlow: values['oauth-flow'],
+      authProfile: values.profile,
+    },
+  });
+  for (const warning of warnings) {
+    console.error(`Warning: ${warning}`);
+  }
+
+  if (positionals[0] === 'auth' && positionals.length <= 3) {
+    await runAuthCommand(positionals[1], positionals.slice(2));
+    return;
+  }
+
+  if (positionals[0] === 'cache' && positionals.length <= 2) {
+    await runCacheCommand(positionals[1]);
+    return;
+  }
+
+  if (positionals[0] === 'fetch' && positionals.length === 2 && /^https?:\/\//i.test(positionals[1])) {
+    await runFetchCommand(positionals[1], cancelOnInterrupt());
+    return;
+  }
+
   const cli = new GoogleSearchCLI();
-  await cli.search(query);
+  const options: CLISearchOptions = {
+    format: values.json ? 'json' : 'text',
+    noCache: values['no-cache'],
+    // パイプ先には引用付きの完全な回答を出力する
+    stream: !values.json && !values['no-stream'] && process.stdout.isTTY === true,
+    sites: values.site,
+    excludeSites: values['exclude-site'],
+    timeRange: values['time-range'] as TimeRange | undefined,
+    language: values.language,
+    region: values.region,
+    signal: cancelOnInterrupt(),
+  };
+  if (values.batch !== undefined) {
+    await cli.searchBatch(values.batch, options);
+    return;
+  }
+  if (values.research) {
+    await cli.research(positionals.join(' '), options);
+    return;
+  }
+  await cli.search(positionals.join(' '), options);
 }
 
 main().catch((error) => {
-  console.error('Failed to run Google Search CLI:', error);
-  process.exit(1);
-});
\ No newline at end of file
+  console.error(`Failed to run Google Search CLI: ${describeError(error)}`);
+  process.exit(toSearchError(error).exitCode);
+});
@@ -0,0 +1,130 @@
+import crypto from 'node:crypto';
+import { ClientConfig } from './config.js';
+
+export interface ClientIdentity {
+  name: string;
+}
+
+/** Used for every caller when no clients are configured. */
+export const ANONYMOUS_CLIENT: ClientIdentity = { name: 'anonymous' };
+
+export type ClientAccessReason = 'unauthorized' | 'rate_limited' | 'budget_exceeded';
+
+export class ClientAccessError extends Error {
+  readonly reason: ClientAccessReason;
+  readonly retryAfterMs?: number;
+
+  constructor(reason: ClientAccessReason, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ClientAccessError';
+    this.reason = reason;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface ClientLimits {
+  /** Searches per minute. */
+  rateLimit?: number;
+  /** Searches per UTC day. */
+  dailyBudget?: number;
+}
+
+interface ClientState {
+  identity: ClientIdentity;
+  limits: ClientLimits;
+  /** Start times of searches within the last minute. */
+  recent: number[];
+  day: string;
+  usedToday: number;
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Authenticates MCP clients by static token and enforces per-client rate
+ * limits and daily search budgets. Authentication is disabled (every caller
+ * is `ANONYMOUS_CLIENT`) when no clients are configured. Usage counters are
+ * kept in memory and reset when the server restarts.
+ */
+export class ClientRegistry {
+  private byTokenHash = new Map<string, ClientState>();
+  private byIdentity = new Map<ClientIdentity, ClientState>();
+
+  constructor(clients: ClientConfig[] = [], defaults: ClientLimits = {}) {
+    for (const client of clients) {
+      const state: ClientState = {
+        identity: { name: client.name },
+        limits: {
+          rateLimit: client.rateLimit ?? defaults.rateLimit,
+          dailyBudget: client.dailyBudget ?? defaults.dailyBudget,
+        },
+        recent: [],
+        day: '',
+        usedToday: 0,
+      };
+      this.byTokenHash.set(hashToken(client.token), state);
+      this.byIdentity.set(state.identity, state);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.byTokenHash.size > 0;
+  }
+
+  /** Returns the client that owns `token`, or throws an `unauthorized` ClientAccessError. */
+  authenticate(token: string | undefined): ClientIdentity {
+    if (!this.enabled) {
+      return ANONYMOUS_CLIENT;
+    }
+    const state = token ? this.byTokenHash.get(hashToken(token)) : undefined;
+    if (!state) {
+      throw new ClientAccessError(
+        'unauthorized',
+        token ? 'Invalid client token.' : 'A client token is required to use this server.'
+      );
+    }
+    return state.identity;
+  }
+
+  /** Records one search for `client`, throwing when it is over its rate limit or daily budget. */
+  consume(client: ClientIdentity, now = Date.now()): void {
+    const state = this.byIdentity.get(client);
+    if (!state) {
+      return;
+    }
+    const { rateLimit, dailyBudget } = state.limits;
+
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (state.day !== day) {
+      state.day = day;
+      state.usedToday = 0;
+    }
+    if (dailyBudget !== undefined && state.usedToday >= dailyBudget) {
+      const nextDay = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000;
+      throw new ClientAccessError(
+        'budget_exceeded',
+        `Daily search budget of ${dailyBudget} exhausted for client "${client.name}". It resets at 00:00 UTC.`,
+        nextDay - now
+      );
+    }
+
+    state.recent = state.recent.filter((time) => now - time < RATE_WINDOW_MS);
+    if (rateLimit !== undefined && state.recent.length >= rateLimit) {
+      const retryAfterMs = state.recent[0] + RATE_WINDOW_MS - now;
+      throw new ClientAccessError(
+        'rate_limited',
+        `Rate limit of ${rateLimit} searches per minute exceeded for client "${client.name}". ` +
+          `Retry in ${Math.ceil(retryAfterMs / 1000)}s.`,
+        retryAfterMs
+      );
+    }
+
+    state.recent.push(now);
+    state.usedToday++;
+  }
+}
+
+function hashToken(token: string): string {
+  // Compare fixed-length digests so lookups do not leak token contents through timing
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
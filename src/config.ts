@@ -0,0 +1,577 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { InvalidArgumentError } from './errors.js';
+
+/**
+ * Effective configuration. Values are merged, lowest precedence first, from:
+ *
+ *   1. built-in defaults
+ *   2. the user config file, ~/.google-web-search/config.json
+ *   3. the nearest project-local .gsearchrc (JSON), searched upward from the cwd
+ *   4. environment variables
+ *   5. CLI flags
+ *
+ * Both files use the snake_case keys listed in CONFIG_SCHEMA.
+ */
+export interface Config {
+  apiKey?: string;
+  useOAuth: boolean;
+  projectId?: string;
+  location: string;
+  oauthClientId?: string;
+  oauthClientSecret?: string;
+  oauthFlow: 'auto' | 'browser' | 'manual' | 'device';
+  authProfile: string;
+  credentialStorage: 'file' | 'encrypted' | 'keychain';
+  credentialKey?: string;
+  useAdc: boolean;
+  applicationCredentials?: string;
+  searchBackend?: string;
+  searchFallback: string[];
+  model?: string;
+  temperature: number;
+  topK: number;
+  topP: number;
+  maxOutputTokens?: number;
+  systemInstruction?: string;
+  allowedModels: string[];
+  searchTimeoutMs: number;
+  cacheEnabled: boolean;
+  cacheTtl: number;
+  cacheMaxEntries: number;
+  cacheDir?: string;
+  resolveUrls: boolean;
+  resolveTimeoutMs: number;
+  resolveConcurrency: number;
+  batchConcurrency: number;
+  batchMaxQueries: number;
+  sessionMaxSessions: number;
+  sessionMaxTurns: number;
+  sessionTtl: number;
+  researchMaxSteps: number;
+  researchMaxQueries: number;
+  fetchTimeoutMs: number;
+  fetchMaxBytes: number;
+  fetchMaxLength: number;
+  fetchRespectRobots: boolean;
+  fetchUserAgent: string;
+  fetchAllowPrivate: boolean;
+  transport: 'stdio' | 'http';
+  httpPort: number;
+  httpHost: string;
+  httpAllowedHosts: string[];
+  httpMaxSessions: number;
+  httpSessionTtl: number;
+  clients: ClientConfig[];
+  clientToken?: string;
+  clientRateLimit?: number;
+  clientDailyBudget?: number;
+}
+
+/** An MCP client allowed to use the server (`clients` entries use snake_case keys in files). */
+export interface ClientConfig {
+  name: string;
+  token: string;
+  /** Searches per minute; overrides `client_rate_limit`. */
+  rateLimit?: number;
+  /** Searches per UTC day; overrides `client_daily_budget`. */
+  dailyBudget?: number;
+}
+
+export type ConfigName = keyof Config;
+export type ConfigSource = 'default' | 'user' | 'project' | 'env' | 'cli';
+type ConfigType = 'string' | 'number' | 'integer' | 'boolean' | 'list' | 'clients';
+
+interface ConfigOption {
+  /** Key in config.json / .gsearchrc and for `gsearch config`. */
+  key: string;
+  type: ConfigType;
+  description: string;
+  /** Environment variables, first one set wins. */
+  env?: string[];
+  default?: unknown;
+  min?: number;
+  max?: number;
+  /** Allowed values for string options. */
+  choices?: string[];
+  /** Masked in `gsearch config list`. */
+  secret?: boolean;
+  /**
+   * Can be set in a project-local .gsearchrc. Any repository can ship that
+   * file, so credentials, backends, client limits and security switches are
+   * only read from the user config, the environment and flags.
+   */
+  project?: boolean;
+}
+
+export const CONFIG_SCHEMA: Record<ConfigName, ConfigOption> = {
+  apiKey: {
+    key: 'api_key', type: 'string', env: ['GOOGLE_API_KEY', 'GEMINI_API_KEY'], secret: true,
+    description: 'Gemini API key for the apikey and genai backends',
+  },
+  useOAuth: {
+    key: 'use_oauth', type: 'boolean', env: ['USE_OAUTH', 'USE_CODE_ASSIST'], default: false,
+    description: 'Use Google OAuth (Code Assist API) even when an API key is set',
+  },
+  projectId: {
+    key: 'project_id', type: 'string', project: true, env: ['GOOGLE_CLOUD_PROJECT'],
+    description: 'Google Cloud project for the Code Assist API and the vertex backend',
+  },
+  location: {
+    key: 'location', type: 'string', project: true, env: ['GOOGLE_CLOUD_LOCATION'], default: 'global',
+    description: 'Vertex AI location (region) for the vertex backend, e.g. us-central1 or europe-west4',
+  },
+  oauthClientId: {
+    key: 'oauth_client_id', type: 'string', env: ['OAUTH_CLIENT_ID'],
+    description: 'OAuth client ID for Google login',
+  },
+  oauthClientSecret: {
+    key: 'oauth_client_secret', type: 'string', env: ['OAUTH_CLIENT_SECRET'], secret: true,
+    description: 'OAuth client secret for Google login',
+  },
+  oauthFlow: {
+    key: 'oauth_flow', type: 'string', env: ['OAUTH_FLOW'], default: 'auto',
+    choices: ['auto', 'browser', 'manual', 'device'],
+    description: 'Google login flow: browser, manual (paste the code) or device; auto picks one for the environment',
+  },
+  authProfile: {
+    key: 'auth_profile', type: 'string', env: ['OAUTH_PROFILE'], default: 'default',
+    description: 'Google login profile to use; each profile has its own credentials and project',
+  },
+  credentialStorage: {
+    key: 'credential_storage', type: 'string', env: ['OAUTH_CREDENTIAL_STORAGE'], default: 'file',
+    choices: ['file', 'encrypted', 'keychain'],
+    description: 'Where login tokens are kept: file, encrypted (file encrypted with credential_key) or keychain (OS secret store)',
+  },
+  credentialKey: {
+    key: 'credential_key', type: 'string', env: ['OAUTH_CREDENTIAL_KEY'], secret: true,
+    description: 'Passphrase that encrypts stored login tokens',
+  },
+  useAdc: {
+    key: 'use_adc', type: 'boolean', env: ['USE_ADC'], default: false,
+    description: 'Authenticate with Application Default Credentials (service account, workload identity or gcloud) instead of a Google login',
+  },
+  applicationCredentials: {
+    key: 'application_credentials', type: 'string', env: ['GOOGLE_APPLICATION_CREDENTIALS'],
+    description: 'Application Default Credentials file: service account key, external account config or gcloud user credentials',
+  },
+  searchBackend: {
+    key: 'search_backend', type: 'string', env: ['SEARCH_BACKEND'],
+    description: 'Search backend: apikey, codeassist, genai or vertex',
+  },
+  searchFallback: {
+    key: 'search_fallback', type: 'list', env: ['SEARCH_FALLBACK'], default: [],
+    description: 'Backends to fall back to on auth or quota failures',
+  },
+  model: {
+    key: 'model', type: 'string', env: ['GEMINI_MODEL'],
+    description: 'Default Gemini model (backend default when unset)',
+  },
+  temperature: {
+    key: 'temperature', type: 'number', project: true, env: ['GEMINI_TEMPERATURE'], default: 0.7, min: 0, max: 2,
+    description: 'Sampling temperature',
+  },
+  topK: {
+    key: 'top_k', type: 'integer', project: true, env: ['GEMINI_TOP_K'], default: 40, min: 1, max: 1000,
+    description: 'Top-k sampling parameter',
+  },
+  topP: {
+    key: 'top_p', type: 'number', project: true, env: ['GEMINI_TOP_P'], default: 0.95, min: 0, max: 1,
+    description: 'Top-p sampling parameter',
+  },
+  maxOutputTokens: {
+    key: 'max_output_tokens', type: 'integer', project: true, env: ['GEMINI_MAX_OUTPUT_TOKENS'], min: 1, max: 65536,
+    description: 'Maximum number of tokens in an answer',
+  },
+  systemInstruction: {
+    key: 'system_instruction', type: 'string', env: ['GEMINI_SYSTEM_INSTRUCTION'],
+    description: 'System instruction sent with every search',
+  },
+  allowedModels: {
+    key: 'allowed_models', type: 'list', env: ['GEMINI_ALLOWED_MODELS'],
+    default: ['gemini-2.0-flash', 'gemini-2.0-flash-exp', 'gemini-2.0-flash-lite', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    description: 'Models callers may request per search',
+  },
+  searchTimeoutMs: {
+    key: 'search_timeout_ms', type: 'integer', project: true, env: ['SEARCH_TIMEOUT_MS'], default: 60000, min: 0, max: 600000,
+    description: 'Time limit of each search in milliseconds (0 disables it)',
+  },
+  cacheEnabled: {
+    key: 'cache_enabled', type: 'boolean', project: true, env: ['SEARCH_CACHE'], default: true,
+    description: 'Cache search results on disk',
+  },
+  cacheTtl: {
+    key: 'cache_ttl', type: 'number', project: true, env: ['SEARCH_CACHE_TTL'], default: 3600, min: 0,
+    description: 'Seconds a cached result stays valid',
+  },
+  cacheMaxEntries: {
+    key: 'cache_max_entries', type: 'integer', env: ['SEARCH_CACHE_MAX_ENTRIES'], default: 500, min: 0,
+    description: 'Maximum number of cached results',
+  },
+  cacheDir: {
+    key: 'cache_dir', type: 'string', env: ['SEARCH_CACHE_DIR'],
+    description: 'Cache directory (default: ~/.google-web-search/cache)',
+  },
+  resolveUrls: {
+    key: 'resolve_urls', type: 'boolean', project: true, env: ['SEARCH_RESOLVE_URLS'], default: false,
+    description: 'Replace grounding redirect links with the pages they point to',
+  },
+  resolveTimeoutMs: {
+    key: 'resolve_timeout_ms', type: 'integer', project: true, env: ['SEARCH_RESOLVE_TIMEOUT_MS'], default: 3000, min: 100, max: 60000,
+    description: 'Timeout for each redirect lookup in milliseconds',
+  },
+  resolveConcurrency: {
+    key: 'resolve_concurrency', type: 'integer', project: true, env: ['SEARCH_RESOLVE_CONCURRENCY'], default: 5, min: 1, max: 20,
+    description: 'Redirect lookups run in parallel',
+  },
+  batchConcurrency: {
+    key: 'batch_concurrency', type: 'integer', project: true, env: ['SEARCH_BATCH_CONCURRENCY'], default: 3, min: 1, max: 10,
+    description: 'Searches run in parallel by a batch',
+  },
+  batchMaxQueries: {
+    key: 'batch_max_queries', type: 'integer', project: true, env: ['SEARCH_BATCH_MAX_QUERIES'], default: 10, min: 1, max: 100,
+    description: 'Maximum number of queries in one batch',
+  },
+  sessionMaxSessions: {
+    key: 'session_max_sessions', type: 'integer', env: ['SEARCH_SESSION_MAX_SESSIONS'], default: 100, min: 1,
+    description: 'Conversational search sessions kept in memory',
+  },
+  sessionMaxTurns: {
+    key: 'session_max_turns', type: 'integer', project: true, env: ['SEARCH_SESSION_MAX_TURNS'], default: 10, min: 1, max: 100,
+    description: 'Earlier turns sent with a follow-up search',
+  },
+  sessionTtl: {
+    key: 'session_ttl', type: 'number', env: ['SEARCH_SESSION_TTL'], default: 1800, min: 1,
+    description: 'Seconds of inactivity after which a session expires',
+  },
+  researchMaxSteps: {
+    key: 'research_max_steps', type: 'integer', project: true, env: ['RESEARCH_MAX_STEPS'], default: 3, min: 1, max: 10,
+    description: 'Maximum number of planning and search rounds in deep research',
+  },
+  researchMaxQueries: {
+    key: 'research_max_queries', type: 'integer', project: true, env: ['RESEARCH_MAX_QUERIES'], default: 8, min: 1, max: 50,
+    description: 'Maximum number of searches in one deep research',
+  },
+  fetchTimeoutMs: {
+    key: 'fetch_timeout_ms', type: 'integer', project: true, env: ['FETCH_TIMEOUT_MS'], default: 10000, min: 100, max: 120000,
+    description: 'Timeout for fetching a source page in milliseconds',
+  },
+  fetchMaxBytes: {
+    key: 'fetch_max_bytes', type: 'integer', project: true, env: ['FETCH_MAX_BYTES'], default: 2 * 1024 * 1024, min: 1024,
+    description: 'Maximum size of a downloaded page in bytes',
+  },
+  fetchMaxLength: {
+    key: 'fetch_max_length', type: 'integer', project: true, env: ['FETCH_MAX_LENGTH'], default: 20000, min: 100,
+    description: 'Maximum number of characters returned by fetch_source',
+  },
+  fetchRespectRobots: {
+    key: 'fetch_respect_robots', type: 'boolean', env: ['FETCH_RESPECT_ROBOTS'], default: true,
+    description: 'Refuse to fetch pages disallowed by robots.txt',
+  },
+  fetchUserAgent: {
+    key: 'fetch_user_agent', type: 'string', env: ['FETCH_USER_AGENT'],
+    default: 'gemini-google-web-search-mcp',
+    description: 'User-Agent sent when fetching pages and matched against robots.txt',
+  },
+  fetchAllowPrivate: {
+    key: 'fetch_allow_private', type: 'boolean', env: ['FETCH_ALLOW_PRIVATE'], default: false,
+    description: 'Allow fetching pages and following source redirects on localhost and private networks',
+  },
+  transport: {
+    key: 'transport', type: 'string', env: ['MCP_TRANSPORT'], default: 'stdio', choices: ['stdio', 'http'],
+    description: 'MCP server transport: stdio or http',
+  },
+  httpPort: {
+    key: 'http_port', type: 'integer', env: ['MCP_HTTP_PORT'], default: 8787, min: 0, max: 65535,
+    description: 'Port for the HTTP transport',
+  },
+  httpHost: {
+    key: 'http_host', type: 'string', env: ['MCP_HTTP_HOST'], default: '127.0.0.1',
+    description: 'Address the HTTP transport listens on',
+  },
+  httpAllowedHosts: {
+    key: 'http_allowed_hosts', type: 'list', env: ['MCP_HTTP_ALLOWED_HOSTS'], default: [],
+    description: 'Host names the HTTP transport accepts in Host and Origin headers, besides localhost when listening on loopback',
+  },
+  httpMaxSessions: {
+    key: 'http_max_sessions', type: 'integer', env: ['MCP_HTTP_MAX_SESSIONS'], default: 100, min: 1,
+    description: 'Maximum number of open HTTP client sessions',
+  },
+  httpSessionTtl: {
+    key: 'http_session_ttl', type: 'number', env: ['MCP_HTTP_SESSION_TTL'], default: 1800, min: 1,
+    description: 'Seconds of inactivity after which an HTTP client session is closed',
+  },
+  clients: {
+    key: 'clients', type: 'clients', default: [],
+    description: 'Clients allowed to call the server: [{ name, token, rate_limit?, daily_budget? }]',
+  },
+  clientToken: {
+    key: 'client_token', type: 'string', env: ['MCP_CLIENT_TOKEN'], secret: true,
+    description: 'Client token presented by a stdio launch',
+  },
+  clientRateLimit: {
+    key: 'client_rate_limit', type: 'integer', env: ['MCP_CLIENT_RATE_LIMIT'], min: 1,
+    description: 'Default searches per minute for each client',
+  },
+  clientDailyBudget: {
+    key: 'client_daily_budget', type: 'integer', env: ['MCP_CLIENT_DAILY_BUDGET'], min: 0,
+    description: 'Default searches per UTC day for each client',
+  },
+};
+
+/** Keys written by `setupUserProject` that are metadata rather than settings. */
+const METADATA_KEYS = new Set(['setup_date', 'auth_type']);
+
+export const PROJECT_CONFIG_FILENAME = '.gsearchrc';
+
+export interface LoadedConfig {
+  config: Config;
+  sources: Record<ConfigName, ConfigSource>;
+  /** Non-fatal problems, such as unknown keys. */
+  warnings: string[];
+  projectConfigPath: string | null;
+}
+
+export interface LoadConfigOptions {
+  /** Values from CLI flags, highest precedence. Strings are parsed like env vars. */
+  overrides?: Partial<Record<ConfigName, unknown>>;
+  cwd?: string;
+}
+
+export function getUserConfigPath(): string {
+  return path.join(os.homedir(), '.google-web-search', 'config.json');
+}
+
+export function findConfigName(key: string): ConfigName | undefined {
+  return (Object.keys(CONFIG_SCHEMA) as ConfigName[]).find((name) => CONFIG_SCHEMA[name].key === key);
+}
+
+export async function readConfigFile(filePath: string): Promise<Record<string, unknown>> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (_) {
+    // 設定ファイルが存在しない場合は無視
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(data);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+    return parsed;
+  } catch (error) {
+    throw new InvalidArgumentError(
+      `Invalid config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/** Merges `values` into a config file, removing keys set to `undefined`. */
+export async function writeConfigFile(values: Record<string, unknown>, filePath = getUserConfigPath()): Promise<void> {
+  const config = { ...(await readConfigFile(filePath)), ...values };
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) {
+      delete config[key];
+    }
+  }
+  // API キーやクライアントトークンを含むので所有者だけが読めるように書く
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const temporary = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(config, null, 2), { mode: 0o600 });
+  await fs.rename(temporary, filePath);
+}
+
+async function findProjectConfig(cwd: string): Promise<string | null> {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILENAME);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch (_) {
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+}
+
+/**
+ * Converts a raw value (from a file, env var or CLI argument) to the option's
+ * type. Strings are parsed; returns an error message on failure.
+ */
+export function coerceConfigValue(name: ConfigName, raw: unknown): { value?: unknown; error?: string } {
+  const option = CONFIG_SCHEMA[name];
+  let value = raw;
+  switch (option.type) {
+    case 'string':
+      if (typeof value !== 'string') return { error: 'expected a string' };
+      if (option.choices && !option.choices.includes(value)) return { error: `expected one of ${option.choices.join(', ')}` };
+      break;
+    case 'boolean':
+      if (typeof value === 'string') {
+        if (/^(true|1|yes)$/i.test(value)) value = true;
+        else if (/^(false|0|no)$/i.test(value)) value = false;
+      }
+      if (typeof value !== 'boolean') return { error: 'expected true or false' };
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '') value = Number(value);
+      if (typeof value !== 'number' || !Number.isFinite(value)) return { error: 'expected a number' };
+      if (option.type === 'integer' && !Number.isInteger(value)) return { error: 'expected an integer' };
+      if (option.min !== undefined && value < option.min) return { error: `must be at least ${option.min}` };
+      if (option.max !== undefined && value > option.max) return { error: `must be at most ${option.max}` };
+      break;
+    case 'list':
+      if (typeof value === 'string') value = value.split(',').map((item) => item.trim()).filter(Boolean);
+      if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+        return { error: 'expected a list of strings' };
+      }
+      break;
+    case 'clients':
+      return coerceClients(value);
+  }
+  return { value };
+}
+
+function coerceClients(raw: unknown): { value?: ClientConfig[]; error?: string } {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (_) {
+      return { error: 'expected a JSON array' };
+    }
+  }
+  if (!Array.isArray(value)) {
+    return { error: 'expected a list of clients' };
+  }
+
+  const clients: ClientConfig[] = [];
+  const isLimit = (limit: unknown) => limit === undefined || (Number.isInteger(limit) && (limit as number) >= 0);
+  for (const [i, entry] of value.entries()) {
+    if (!entry || typeof entry !== 'object' || typeof entry.name !== 'string' || !entry.name) {
+      return { error: `client ${i + 1} needs a "name"` };
+    }
+    if (typeof entry.token !== 'string' || entry.token.length < 16) {
+      return { error: `client "${entry.name}" needs a "token" of at least 16 characters` };
+    }
+    if (!isLimit(entry.rate_limit) || !isLimit(entry.daily_budget)) {
+      return { error: `client "${entry.name}" has an invalid rate_limit or daily_budget` };
+    }
+    if (clients.some((client) => client.name === entry.name || client.token === entry.token)) {
+      return { error: `client "${entry.name}" duplicates another client's name or token` };
+    }
+    clients.push({ name: entry.name, token: entry.token, rateLimit: entry.rate_limit, dailyBudget: entry.daily_budget });
+  }
+  return { value: clients };
+}
+
+/** Loads, merges and validates the configuration. Throws on invalid values. */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+  const names = Object.keys(CONFIG_SCHEMA) as ConfigName[];
+  const values: Partial<Record<ConfigName, unknown>> = {};
+  const sources = {} as Record<ConfigName, ConfigSource>;
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  for (const name of names) {
+    if (CONFIG_SCHEMA[name].default !== undefined) {
+      values[name] = CONFIG_SCHEMA[name].default;
+      sources[name] = 'default';
+    }
+  }
+
+  const apply = (name: ConfigName, raw: unknown, source: ConfigSource, origin: string) => {
+    const { value, error } = coerceConfigValue(name, raw);
+    if (error) {
+      errors.push(`${origin}: ${error}`);
+      return;
+    }
+    values[name] = value;
+    sources[name] = source;
+  };
+
+  const applyFile = (file: Record<string, unknown>, source: ConfigSource, filePath: string) => {
+    for (const [key, raw] of Object.entries(file)) {
+      const name = findConfigName(key);
+      if (!name) {
+        if (!METADATA_KEYS.has(key)) {
+          warnings.push(`Unknown config key "${key}" in ${filePath}`);
+        }
+        continue;
+      }
+      if (source === 'project' && !CONFIG_SCHEMA[name].project) {
+        warnings.push(`Ignored "${key}" in ${filePath}: set it in ${getUserConfigPath()} or the environment instead`);
+        continue;
+      }
+      if (raw !== null) {
+        apply(name, raw, source, `"${key}" in ${filePath}`);
+      }
+    }
+  };
+
+  const userConfigPath = getUserConfigPath();
+  applyFile(await readConfigFile(userConfigPath), 'user', userConfigPath);
+
+  const projectConfigPath = await findProjectConfig(options.cwd ?? process.cwd());
+  if (projectConfigPath) {
+    applyFile(await readConfigFile(projectConfigPath), 'project', projectConfigPath);
+  }
+
+  for (const name of names) {
+    const envName = CONFIG_SCHEMA[name].env?.find((env) => process.env[env]);
+    if (envName) {
+      apply(name, process.env[envName], 'env', `environment variable ${envName}`);
+    }
+  }
+
+  for (const [name, raw] of Object.entries(options.overrides ?? {}) as Array<[ConfigName, unknown]>) {
+    if (raw !== undefined) {
+      apply(name, raw, 'cli', `command line option for "${CONFIG_SCHEMA[name].key}"`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new InvalidArgumentError(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
+
+  const config = values as unknown as Config;
+  // The configured default model is always allowed
+  if (config.model && !config.allowedModels.includes(config.model)) {
+    config.allowedModels = [...config.allowedModels, config.model];
+  }
+
+  loadedConfig = { config, sources, warnings, projectConfigPath };
+  return loadedConfig;
+}
+
+let loadedConfig: LoadedConfig | null = null;
+
+/** Returns the result of the last `loadConfig`, loading it with no overrides on first use. */
+export async function getLoadedConfig(): Promise<LoadedConfig> {
+  return loadedConfig ?? loadConfig();
+}
+
+export async function getConfig(): Promise<Config> {
+  return (await getLoadedConfig()).config;
+}
+
+/** Formats a config value for display; secrets are masked. */
+export function formatConfigValue(name: ConfigName, value: unknown): string {
+  if (value === undefined) {
+    return '(unset)';
+  }
+  if (CONFIG_SCHEMA[name].secret && typeof value === 'string' && value) {
+    return value.length > 8 ? `${value.slice(0, 4)}…${value.slice(-2)}` : '****';
+  }
+  if (name === 'clients') {
+    return (value as ClientConfig[]).map((client) => client.name).join(',');
+  }
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
@@ -0,0 +1,298 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import { execFile } from 'node:child_process';
+import type { Credentials } from 'google-auth-library';
+import { getConfig } from './config.js';
+import { InvalidArgumentError, SearchError } from './errors.js';
+
+export const DEFAULT_PROFILE = 'default';
+export type CredentialStorage = 'file' | 'encrypted' | 'keychain';
+
+const PROFILE_PATTERN = /^[\w-]{1,64}$/;
+const CREDENTIAL_FILE_PATTERN = /^mcp_oauth_creds(?:\.([\w-]{1,64}))?\.json$/;
+const KEYCHAIN_SERVICE = 'gemini-google-web-search-mcp';
+
+export interface StoredLogin {
+  credentials: Credentials;
+  /** Code Assist project detected or chosen for this profile. */
+  projectId?: string;
+}
+
+export interface CredentialStoreOptions {
+  /** Directory of the credential files. Defaults to ~/.gemini. */
+  dir?: string;
+  storage?: CredentialStorage;
+  /** Passphrase for `encrypted` storage, also used by the file fallback of `keychain` when set. */
+  key?: string;
+}
+
+/** On-disk record of a profile. Older versions wrote the bare credentials. */
+interface CredentialFile {
+  storage: CredentialStorage;
+  projectId?: string;
+  credentials?: Credentials;
+  encrypted?: { salt: string; iv: string; tag: string; data: string };
+}
+
+/**
+ * Google login credentials per named profile, in ~/.gemini. The default
+ * profile keeps the original mcp_oauth_creds.json; other profiles use
+ * mcp_oauth_creds.<profile>.json. Files are only readable by the owner. The
+ * tokens can be encrypted with `credential_key` or kept in the OS secret
+ * store (macOS Keychain, or libsecret via secret-tool on Linux), in which
+ * case the file only records the profile and its project.
+ */
+export class CredentialStore {
+  readonly dir: string;
+  readonly storage: CredentialStorage;
+  private readonly key: string | undefined;
+
+  constructor(options: CredentialStoreOptions = {}) {
+    this.dir = options.dir ?? path.join(os.homedir(), '.gemini');
+    this.storage = options.storage ?? 'file';
+    this.key = options.key;
+    if (this.storage === 'encrypted' && !this.key) {
+      throw new InvalidArgumentError(
+        'credential_storage is "encrypted" but no credential_key is set (OAUTH_CREDENTIAL_KEY).'
+      );
+    }
+  }
+
+  /** Creates the store described by the `credential_*` settings. */
+  static async fromConfig(): Promise<CredentialStore> {
+    const config = await getConfig();
+    return new CredentialStore({ storage: config.credentialStorage, key: config.credentialKey });
+  }
+
+  getPath(profile: string): string {
+    validateProfile(profile);
+    const name = profile === DEFAULT_PROFILE ? 'mcp_oauth_creds.json' : `mcp_oauth_creds.${profile}.json`;
+    return path.join(this.dir, name);
+  }
+
+  /** Profiles that have stored credentials, sorted by name. */
+  async list(): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (_) {
+      return [];
+    }
+    return names
+      .map((name) => CREDENTIAL_FILE_PATTERN.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => match[1] ?? DEFAULT_PROFILE)
+      .sort();
+  }
+
+  /** The profile's login, or null when it has none. Throws when it cannot be read or decrypted. */
+  async load(profile: string): Promise<StoredLogin | null> {
+    const filePath = this.getPath(profile);
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (_) {
+      return null;
+    }
+    // 古いバージョンが既定の権限で書いたファイルも所有者専用にする
+    await restrictPermissions(filePath);
+
+    const record = parseCredentialFile(data);
+    if (record.storage === 'keychain') {
+      const secret = await keychain.get(profile);
+      return secret ? { credentials: JSON.parse(secret), projectId: record.projectId } : null;
+    }
+    if (record.encrypted) {
+      if (!this.key) {
+        throw new SearchError(`The credentials of profile "${profile}" are encrypted.`, {
+          hint: 'Set credential_key (OAUTH_CREDENTIAL_KEY) to the passphrase they were saved with.',
+        });
+      }
+      return { credentials: JSON.parse(decrypt(record.encrypted, this.key, profile)), projectId: record.projectId };
+    }
+    return record.credentials ? { credentials: record.credentials, projectId: record.projectId } : null;
+  }
+
+  async save(profile: string, login: StoredLogin): Promise<void> {
+    const filePath = this.getPath(profile);
+    const secret = JSON.stringify(login.credentials);
+    const previous = await fs.readFile(filePath, 'utf-8').then(parseCredentialFile, () => null);
+    let record: CredentialFile;
+    if (this.storage === 'keychain') {
+      try {
+        await keychain.set(profile, secret);
+        record = { storage: 'keychain', projectId: login.projectId };
+      } catch (error) {
+        console.error(
+          `Could not use the OS secret store (${error instanceof Error ? error.message : error}), ` +
+          `saving the credentials to ${filePath} instead`
+        );
+        record = this.inlineRecord(secret, login);
+      }
+    } else {
+      record = this.inlineRecord(secret, login);
+    }
+    await writePrivateFile(filePath, JSON.stringify(record, null, 2));
+    if (previous?.storage === 'keychain' && record.storage !== 'keychain') {
+      // 保存先を変えたら古いトークンを OS の秘密情報ストアに残さない
+      await keychain.delete(profile).catch(() => undefined);
+    }
+  }
+
+  /** Updates the profile's project, keeping its credentials. Returns false when the profile has no login. */
+  async setProjectId(profile: string, projectId: string): Promise<boolean> {
+    const filePath = this.getPath(profile);
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (_) {
+      return false;
+    }
+    await writePrivateFile(filePath, JSON.stringify({ ...parseCredentialFile(data), projectId }, null, 2));
+    return true;
+  }
+
+  /** Deletes the profile's credentials. Returns false when it had none. */
+  async remove(profile: string): Promise<boolean> {
+    const filePath = this.getPath(profile);
+    let record: CredentialFile;
+    try {
+      record = parseCredentialFile(await fs.readFile(filePath, 'utf-8'));
+    } catch (_) {
+      return false;
+    }
+    if (record.storage === 'keychain') {
+      await keychain.delete(profile).catch(() => undefined);
+    }
+    await fs.rm(filePath, { force: true });
+    return true;
+  }
+
+  private inlineRecord(secret: string, login: StoredLogin): CredentialFile {
+    return this.key && this.storage !== 'file'
+      ? { storage: 'encrypted', projectId: login.projectId, encrypted: encrypt(secret, this.key) }
+      : { storage: 'file', projectId: login.projectId, credentials: login.credentials };
+  }
+}
+
+export function validateProfile(profile: string): string {
+  if (!PROFILE_PATTERN.test(profile)) {
+    throw new InvalidArgumentError(`Invalid profile name "${profile}": use 1-64 letters, digits, "_" or "-".`);
+  }
+  return profile;
+}
+
+function parseCredentialFile(data: string): CredentialFile {
+  const parsed = JSON.parse(data);
+  if (typeof parsed?.storage === 'string') {
+    return parsed;
+  }
+  // 旧形式: 認証情報そのもの
+  return { storage: 'file', credentials: parsed };
+}
+
+/** Writes through a temporary file so the file is never readable by others, even briefly. */
+async function writePrivateFile(filePath: string, data: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const temporary = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, data, { mode: 0o600 });
+  await fs.rename(temporary, filePath);
+}
+
+async function restrictPermissions(filePath: string): Promise<void> {
+  if (process.platform === 'win32') {
+    return;
+  }
+  try {
+    const { mode } = await fs.stat(filePath);
+    if (mode & 0o077) {
+      await fs.chmod(filePath, 0o600);
+    }
+  } catch (_) {
+    // Best effort; reading still works
+  }
+}
+
+function encrypt(plaintext: string, passphrase: string): NonNullable<CredentialFile['encrypted']> {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(passphrase, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(encrypted: NonNullable<CredentialFile['encrypted']>, passphrase: string, profile: string): string {
+  try {
+    const key = crypto.scryptSync(passphrase, Buffer.from(encrypted.salt, 'base64'), 32);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    throw new SearchError(`Could not decrypt the credentials of profile "${profile}".`, {
+      hint: 'credential_key (OAUTH_CREDENTIAL_KEY) does not match the passphrase they were saved with.',
+      cause: error,
+    });
+  }
+}
+
+/** The OS secret store, through the `security` (macOS) and `secret-tool` (Linux) commands. */
+const keychain = {
+  async get(profile: string): Promise<string | null> {
+    try {
+      const output = process.platform === 'darwin'
+        ? await run('security', ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', profile, '-w'])
+        : await run('secret-tool', ['lookup', 'service', KEYCHAIN_SERVICE, 'account', profile]);
+      return output.trim() || null;
+    } catch (_) {
+      return null;
+    }
+  },
+
+  async set(profile: string, secret: string): Promise<void> {
+    if (process.platform === 'darwin') {
+      // コマンドライン引数は ps で他のユーザーから見えるので、秘密は対話モードの標準入力で渡す
+      const hex = Buffer.from(secret, 'utf8').toString('hex');
+      await run('security', ['-i'], `add-generic-password -U -s ${KEYCHAIN_SERVICE} -a ${profile} -X ${hex}\n`);
+      // 対話モードは失敗しても終了コードが 0 のことがあるので読み戻して確かめる
+      if ((await keychain.get(profile)) !== secret) {
+        throw new Error('the Keychain did not store the secret');
+      }
+    } else if (process.platform === 'linux') {
+      await run(
+        'secret-tool',
+        ['store', `--label=Google Web Search (${profile})`, 'service', KEYCHAIN_SERVICE, 'account', profile],
+        secret
+      );
+    } else {
+      throw new Error(`no supported secret store on ${process.platform}`);
+    }
+  },
+
+  async delete(profile: string): Promise<void> {
+    if (process.platform === 'darwin') {
+      await run('security', ['delete-generic-password', '-s', KEYCHAIN_SERVICE, '-a', profile]);
+    } else {
+      await run('secret-tool', ['clear', 'service', KEYCHAIN_SERVICE, 'account', profile]);
+    }
+  },
+};
+
+function run(command: string, args: string[], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(command, args, { timeout: 10_000 }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+    child.stdin?.end(input);
+  });
+}
@@ -0,0 +1,271 @@
+/**
+ * Error classes for search failures. Each carries an actionable hint for
+ * users and a distinct process exit code for the CLI.
+ */
+export class SearchError extends Error {
+  readonly exitCode: number = 1;
+  readonly hint: string | undefined;
+  /** HTTP status of the failed upstream call, if any. */
+  readonly status: number | undefined;
+
+  constructor(message: string, options: { status?: number; hint?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.hint = options.hint;
+  }
+}
+
+export class QuotaExceededError extends SearchError {
+  readonly exitCode = 3;
+  /** Delay requested by the server before retrying, in milliseconds. */
+  readonly retryAfterMs: number | undefined;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, {
+      ...options,
+      hint: 'The Google API quota or rate limit was exceeded. Wait a moment and try again, ' +
+        'or switch to another backend with SEARCH_BACKEND (for example an API key via GOOGLE_API_KEY).',
+    });
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class AuthExpiredError extends SearchError {
+  readonly exitCode = 4;
+
+  constructor(message: string, options: { status?: number; hint?: string; cause?: unknown } = {}) {
+    super(message, {
+      ...options,
+      hint: options.hint ?? 'Your Google credentials are invalid or have expired. Sign in again with ' +
+        '`gsearch auth login` (add --profile <name> for a named profile), or check GOOGLE_API_KEY.',
+    });
+  }
+}
+
+export class ProjectNotConfiguredError extends SearchError {
+  readonly exitCode = 5;
+
+  constructor(message: string, options: { status?: number; hint?: string; cause?: unknown } = {}) {
+    super(message, {
+      ...options,
+      hint: options.hint ?? 'No usable Google Cloud project is configured for Code Assist. ' +
+        'Run ./setup-gcp.sh or set GOOGLE_CLOUD_PROJECT=your-project-id.',
+    });
+  }
+}
+
+export class UpstreamError extends SearchError {
+  readonly exitCode = 6;
+  /** Low-level network error code such as ECONNRESET, if any. */
+  readonly code: string | undefined;
+  readonly retryAfterMs: number | undefined;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: string; retryAfterMs?: number; cause?: unknown } = {},
+  ) {
+    super(message, {
+      ...options,
+      hint: 'The Google API failed or could not be reached. Check your network connection and try again later.',
+    });
+    this.code = options.code;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** The search did not finish within its timeout; the upstream request was aborted. */
+export class RequestTimeoutError extends SearchError {
+  readonly exitCode = 7;
+  readonly timeoutMs: number;
+
+  constructor(message: string, options: { timeoutMs: number; hint?: string; cause?: unknown }) {
+    super(message, {
+      ...options,
+      hint: options.hint ?? 'The Google API did not answer in time. Try again, or allow more time with ' +
+        'timeoutMs (--timeout for gsearch) or search_timeout_ms.',
+    });
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/** The caller cancelled the request (MCP cancellation or Ctrl+C); the upstream request was aborted. */
+export class RequestCancelledError extends SearchError {
+  readonly exitCode = 130;
+}
+
+/** A caller-supplied argument or configuration value is invalid. */
+export class InvalidArgumentError extends SearchError {
+  readonly exitCode = 2;
+}
+
+const AUTH_FAILURE_PATTERN = /invalid_grant|token has been expired or revoked|API_KEY_INVALID|API key not valid/i;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof QuotaExceededError) {
+    return true;
+  }
+  if (error instanceof UpstreamError) {
+    return error.status !== undefined ? RETRYABLE_STATUSES.has(error.status) : error.code !== undefined;
+  }
+  return false;
+}
+
+/**
+ * Auth, project and quota failures are specific to one backend, so another
+ * backend in the fallback chain may still succeed. Other permission errors
+ * (HTTP 403) are reported as they are rather than hidden by a fallback.
+ */
+export function shouldFallback(error: unknown): boolean {
+  return (
+    error instanceof QuotaExceededError ||
+    error instanceof AuthExpiredError ||
+    error instanceof ProjectNotConfiguredError
+  );
+}
+
+/** Parses a Retry-After header (seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Reads `RetryInfo.retryDelay` (e.g. "30s") from Google API error details. */
+function retryDelayFromDetails(details: unknown): number | undefined {
+  if (!Array.isArray(details)) {
+    return undefined;
+  }
+  for (const detail of details) {
+    const delay = detail?.retryDelay;
+    if (typeof delay === 'string' && /^\d+(\.\d+)?s$/.test(delay)) {
+      return parseFloat(delay) * 1000;
+    }
+  }
+  return undefined;
+}
+
+/** Classifies a failed HTTP response from a Google API. */
+export function errorFromResponse(
+  status: number,
+  statusText: string,
+  body: string,
+  headers?: { get(name: string): string | null },
+): SearchError {
+  let details: unknown;
+  let apiStatus = '';
+  try {
+    const parsed = JSON.parse(body);
+    details = parsed?.error?.details;
+    apiStatus = parsed?.error?.status ?? '';
+  } catch (_) {
+    // Not a JSON error body
+  }
+
+  const message = `${status} ${statusText}${body ? ` - ${body}` : ''}`;
+  const retryAfterMs = parseRetryAfter(headers?.get('retry-after')) ?? retryDelayFromDetails(details);
+  return classify(status, apiStatus, message, { retryAfterMs });
+}
+
+function classify(
+  status: number | undefined,
+  apiStatus: string,
+  message: string,
+  options: { retryAfterMs?: number; cause?: unknown },
+): SearchError {
+  if (status === 429 || apiStatus === 'RESOURCE_EXHAUSTED') {
+    return new QuotaExceededError(`Quota exceeded: ${message}`, { status, ...options });
+  }
+  if (status === 401 || apiStatus === 'UNAUTHENTICATED' || AUTH_FAILURE_PATTERN.test(message)) {
+    return new AuthExpiredError(`Authentication failed: ${message}`, { status, cause: options.cause });
+  }
+  if (status === 403 && /project/i.test(message)) {
+    return new ProjectNotConfiguredError(`Project not configured: ${message}`, { status, cause: options.cause });
+  }
+  return new UpstreamError(`Upstream API error: ${message}`, { status, ...options });
+}
+
+function property(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+function numberProperty(value: unknown, key: string): number | undefined {
+  const found = property(value, key);
+  return typeof found === 'number' ? found : undefined;
+}
+
+/**
+ * Converts anything thrown by a backend (SDK errors, fetch failures, plain
+ * errors) into a SearchError subclass.
+ */
+export function toSearchError(error: unknown): SearchError {
+  if (error instanceof SearchError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  // SDK エラーは status を、gaxios のエラーは response.status を持つ
+  const status = numberProperty(error, 'status') ?? numberProperty(property(error, 'response'), 'status');
+
+  if (status !== undefined) {
+    return classify(status, '', message, {
+      retryAfterMs: retryDelayFromDetails(property(error, 'errorDetails')),
+      cause: error,
+    });
+  }
+
+  const code = property(error, 'code') ?? property(error instanceof Error ? error.cause : undefined, 'code');
+  if (typeof code === 'string' && RETRYABLE_CODES.has(code)) {
+    return new UpstreamError(`Network error: ${message}`, { code, cause: error });
+  }
+  if (error instanceof TypeError && message === 'fetch failed') {
+    return new UpstreamError(`Network error: ${message}`, { code: 'FETCH_FAILED', cause: error });
+  }
+  if (AUTH_FAILURE_PATTERN.test(message)) {
+    return new AuthExpiredError(`Authentication failed: ${message}`, { cause: error });
+  }
+  if (/GOOGLE_CLOUD_PROJECT|Project ID not available/.test(message)) {
+    return new ProjectNotConfiguredError(message, { cause: error });
+  }
+  return new SearchError(message, { cause: error });
+}
+
+/**
+ * The error to report for a call aborted through `signal` (cancellation) or
+ * `timeoutSignal`, whichever fired first; other failures are classified as usual.
+ */
+export function abortedError(
+  error: unknown,
+  { signal, timeoutSignal, timeoutMs, operation = 'Search' }: {
+    signal?: AbortSignal;
+    timeoutSignal?: AbortSignal;
+    timeoutMs?: number;
+    /** Subject of the error message, e.g. "Search". */
+    operation?: string;
+  },
+): SearchError {
+  if (error instanceof RequestTimeoutError || error instanceof RequestCancelledError) {
+    return error;
+  }
+  if (timeoutSignal?.aborted) {
+    return new RequestTimeoutError(`${operation} timed out after ${timeoutMs} ms.`, { timeoutMs: timeoutMs ?? 0, cause: error });
+  }
+  if (signal?.aborted) {
+    return new RequestCancelledError(`${operation} was cancelled.`, { cause: error });
+  }
+  return toSearchError(error);
+}
+
+/** The error message followed by its hint, for display to users. */
+export function describeError(error: unknown): string {
+  const searchError = toSearchError(error);
+  return searchError.hint ? `${searchError.message}\n\n${searchError.hint}` : searchError.message;
+}
@@ -0,0 +1,413 @@
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { BlockList, LookupFunction, isIP } from 'node:net';
+import { Readable } from 'node:stream';
+import { GroundingChunkItem, SearchResult } from './types.js';
+import { getConfig } from './config.js';
+import { InvalidArgumentError, RequestCancelledError, RequestTimeoutError, SearchError, toSearchError } from './errors.js';
+import { isGroundingRedirect } from './format.js';
+import { htmlToMarkdown } from './html.js';
+import { RobotsRules } from './robots.js';
+
+export interface SourceFetcherOptions {
+  /** Timeout for the whole fetch, robots.txt and redirects included. */
+  timeoutMs?: number;
+  /** Bytes read from the response body; the rest of the page is ignored. */
+  maxBytes?: number;
+  /** Default number of characters returned per call. */
+  maxLength?: number;
+  /** Refuse pages that robots.txt disallows for `userAgent`. */
+  respectRobots?: boolean;
+  userAgent?: string;
+  /** Allow loopback, link-local and private network addresses. */
+  allowPrivate?: boolean;
+  maxRedirects?: number;
+}
+
+export interface FetchPageOptions {
+  /** Character offset into the converted page, for reading long pages in parts. */
+  offset?: number;
+  maxLength?: number;
+  /** Cancels the download, e.g. when the MCP request is cancelled. */
+  signal?: AbortSignal;
+}
+
+export interface FetchedPage {
+  /** The URL that was requested. */
+  url: string;
+  /** The URL the content was read from, after redirects. */
+  finalUrl: string;
+  title: string;
+  contentType: string;
+  /** The requested part of the page as Markdown (plain text for non-HTML pages). */
+  text: string;
+  offset: number;
+  /** Length of the whole converted page. */
+  totalLength: number;
+  /** The download stopped at `maxBytes`, so the end of the page is missing. */
+  truncatedBytes: boolean;
+}
+
+const HTML_TYPES = /^(text\/html|application\/xhtml\+xml)$/;
+const TEXT_TYPES = /^(text\/[\w.+-]+|application\/(json|xml|[\w.+-]+\+(json|xml)))$/;
+const MAX_ROBOTS_ENTRIES = 100;
+const MAX_ROBOTS_BYTES = 512 * 1024;
+
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface PinnedRequestInit {
+  method?: 'GET' | 'HEAD';
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Resolves `url`'s host and refuses loopback, link-local and private network
+ * addresses. Returns the address to connect to, for `pinnedFetch`.
+ */
+export async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true, verbatim: true });
+  for (const { address, family } of addresses) {
+    const type = family === 6 ? 'ipv6' : 'ipv4';
+    const mapped = type === 'ipv6' ? /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1] : undefined;
+    if (PRIVATE_NETWORKS.check(mapped ?? address, mapped ? 'ipv4' : type)) {
+      throw new InvalidArgumentError(`Refusing to fetch ${url}: ${url.hostname} is a private network address.`, {
+        hint: 'Set fetch_allow_private to true to fetch pages on localhost or private networks.',
+      });
+    }
+  }
+  return addresses[0];
+}
+
+/**
+ * A `fetch` that does not follow redirects and connects to `address` (from
+ * `resolvePublicAddress`) instead of looking the host up again, so DNS
+ * rebinding cannot swap in a private address after the check. TLS still
+ * verifies the certificate against the hostname. Without `address` the host
+ * is resolved as usual. Responses are not decompressed, so no
+ * Accept-Encoding is sent.
+ */
+export function pinnedFetch(url: URL, init: PinnedRequestInit = {}, address?: LookupAddress): Promise<Response> {
+  const method = init.method ?? 'GET';
+  const pinned: LookupFunction | undefined = address && ((_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [address]);
+    } else {
+      callback(null, address.address, address.family);
+    }
+  });
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      { method, headers: init.headers, signal: init.signal, ...(pinned && { lookup: pinned }) },
+      (response) => {
+        const headers = new Headers();
+        for (let i = 0; i < response.rawHeaders.length; i += 2) {
+          headers.append(response.rawHeaders[i], response.rawHeaders[i + 1]);
+        }
+        const status = response.statusCode ?? 502;
+        const hasBody = method !== 'HEAD' && status !== 204 && status !== 205 && status !== 304;
+        if (!hasBody) {
+          response.resume();
+        }
+        resolve(new Response(hasBody ? (Readable.toWeb(response) as ReadableStream<Uint8Array>) : null, {
+          status,
+          statusText: response.statusMessage,
+          headers,
+        }));
+      },
+    );
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Downloads a page and converts it to Markdown for `fetch_source`, within
+ * the configured time and size limits and the site's robots.txt rules.
+ */
+export class SourceFetcher {
+  private readonly timeoutMs: number;
+  private readonly maxBytes: number;
+  private readonly maxLength: number;
+  private readonly respectRobots: boolean;
+  private readonly userAgent: string;
+  private readonly allowPrivate: boolean;
+  private readonly maxRedirects: number;
+  private robots = new Map<string, RobotsRules>();
+
+  constructor(options: SourceFetcherOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.maxBytes = options.maxBytes ?? 2 * 1024 * 1024;
+    this.maxLength = options.maxLength ?? 20000;
+    this.respectRobots = options.respectRobots ?? true;
+    this.userAgent = options.userAgent ?? 'gemini-google-web-search-mcp';
+    this.allowPrivate = options.allowPrivate ?? false;
+    this.maxRedirects = options.maxRedirects ?? 5;
+  }
+
+  /** Creates the fetcher described by the `fetch_*` settings. */
+  static async fromConfig(): Promise<SourceFetcher> {
+    const config = await getConfig();
+    return new SourceFetcher({
+      timeoutMs: config.fetchTimeoutMs,
+      maxBytes: config.fetchMaxBytes,
+      maxLength: config.fetchMaxLength,
+      respectRobots: config.fetchRespectRobots,
+      userAgent: config.fetchUserAgent,
+      allowPrivate: config.fetchAllowPrivate,
+    });
+  }
+
+  async fetch(url: string, options: FetchPageOptions = {}): Promise<FetchedPage> {
+    const offset = options.offset ?? 0;
+    const maxLength = options.maxLength ?? this.maxLength;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new InvalidArgumentError('offset must be a non-negative integer.');
+    }
+    if (!Number.isInteger(maxLength) || maxLength < 1) {
+      throw new InvalidArgumentError('maxLength must be a positive integer.');
+    }
+
+    const timeoutSignal = AbortSignal.timeout(this.timeoutMs);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+    try {
+      const { response, finalUrl } = await this.follow(parseHttpUrl(url), signal);
+      const contentType = (response.headers.get('content-type') ?? 'text/html').split(';')[0].trim().toLowerCase();
+      if (!HTML_TYPES.test(contentType) && !TEXT_TYPES.test(contentType)) {
+        await response.body?.cancel();
+        throw new SearchError(`Cannot read ${finalUrl}: unsupported content type ${contentType}.`, {
+          hint: 'Only HTML and text pages can be fetched.',
+        });
+      }
+
+      const { body, truncated } = await readBody(response, this.maxBytes);
+      const decoded = decode(body, response.headers.get('content-type'));
+      const { title, markdown } = HTML_TYPES.test(contentType)
+        ? htmlToMarkdown(decoded, finalUrl)
+        : { title: '', markdown: decoded.trim() };
+
+      return {
+        url,
+        finalUrl,
+        title,
+        contentType,
+        text: markdown.slice(offset, offset + maxLength),
+        offset,
+        totalLength: markdown.length,
+        truncatedBytes: truncated,
+      };
+    } catch (error) {
+      if (timeoutSignal.aborted) {
+        throw new RequestTimeoutError(`Timed out fetching ${url} after ${this.timeoutMs} ms.`, {
+          timeoutMs: this.timeoutMs,
+          hint: 'The site is slow or unreachable. Try again later or raise fetch_timeout_ms.',
+          cause: error,
+        });
+      }
+      if (options.signal?.aborted) {
+        throw new RequestCancelledError(`Fetching ${url} was cancelled.`, { cause: error });
+      }
+      if (error instanceof SearchError) {
+        throw error;
+      }
+      throw new SearchError(`Could not fetch ${url}: ${toSearchError(error).message}`, { cause: error });
+    }
+  }
+
+  /** Requests `url`, checking every redirect hop against the network and robots.txt rules. */
+  private async follow(url: URL, signal: AbortSignal): Promise<{ response: Response; finalUrl: string }> {
+    let current = url;
+    for (let hop = 0; ; hop++) {
+      // 検査したアドレスにそのまま接続し、二度目の名前解決で別のアドレスに差し替えられないようにする
+      const address = this.allowPrivate ? undefined : await resolvePublicAddress(current);
+      // グラウンディングのリダイレクト URL は本文を読まないので robots.txt の対象外
+      if (this.respectRobots && !isGroundingRedirect(current.toString())) {
+        const rules = await this.getRobots(current, signal, address);
+        if (!rules.isAllowed(current)) {
+          throw new SearchError(`Fetching ${current} is disallowed by the site's robots.txt.`, {
+            hint: 'Open the page in a browser instead, or set fetch_respect_robots to false if you are allowed to fetch it.',
+          });
+        }
+      }
+
+      const response = await pinnedFetch(current, {
+        signal,
+        headers: { 'User-Agent': this.userAgent, Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5' },
+      }, address);
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (hop >= this.maxRedirects) {
+          throw new SearchError(`Too many redirects fetching ${url}.`);
+        }
+        current = parseHttpUrl(new URL(location, current).toString());
+        continue;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new SearchError(`Fetching ${current} failed: ${response.status} ${response.statusText}`, {
+          status: response.status,
+        });
+      }
+      return { response, finalUrl: current.toString() };
+    }
+  }
+
+  /**
+   * Returns the robots.txt rules for `url`'s origin. As in RFC 9309, a
+   * missing file (4xx) allows everything and an unreachable one (5xx or
+   * network error) disallows everything; only the former is cached.
+   */
+  private async getRobots(url: URL, signal: AbortSignal, address?: LookupAddress): Promise<RobotsRules> {
+    const cached = this.robots.get(url.origin);
+    if (cached) {
+      return cached;
+    }
+
+    let rules: RobotsRules;
+    try {
+      const response = await pinnedFetch(new URL('/robots.txt', url.origin), {
+        signal,
+        headers: { 'User-Agent': this.userAgent },
+      }, address);
+      if (response.ok) {
+        rules = RobotsRules.parse(decode((await readBody(response, MAX_ROBOTS_BYTES)).body, null), this.userAgent);
+      } else {
+        await response.body?.cancel();
+        if (response.status >= 500) {
+          return RobotsRules.DISALLOW_ALL;
+        }
+        rules = RobotsRules.ALLOW_ALL;
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        throw error;
+      }
+      console.error(`Could not read robots.txt for ${url.origin}: ${error instanceof Error ? error.message : error}`);
+      return RobotsRules.DISALLOW_ALL;
+    }
+
+    this.robots.set(url.origin, rules);
+    if (this.robots.size > MAX_ROBOTS_ENTRIES) {
+      this.robots.delete(this.robots.keys().next().value!);
+    }
+    return rules;
+  }
+}
+
+function parseHttpUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new InvalidArgumentError(`Invalid URL "${url}".`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new InvalidArgumentError(`Only http and https URLs can be fetched, got "${url}".`);
+  }
+  return parsed;
+}
+
+/** Reads at most `maxBytes` of the body, cancelling the download beyond that. */
+async function readBody(response: Response, maxBytes: number): Promise<{ body: Uint8Array; truncated: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      size += value.byteLength;
+      if (size > maxBytes) {
+        truncated = true;
+        await reader.cancel();
+        break;
+      }
+    }
+  }
+  return { body: Buffer.concat(chunks).subarray(0, maxBytes), truncated };
+}
+
+function decode(body: Uint8Array, contentType: string | null): string {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType ?? '')?.[1];
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+/** Renders a fetched page with its original URL and, for long pages, how to read the rest. */
+export function renderFetchedPage(page: FetchedPage): string {
+  const lines = [`# ${page.title || page.finalUrl}`, '', `Source: ${page.url}`];
+  if (page.finalUrl !== page.url) {
+    lines.push(`Fetched from: ${page.finalUrl}`);
+  }
+  lines.push('', page.text || '(No readable text found on this page.)');
+
+  const end = page.offset + page.text.length;
+  if (end < page.totalLength) {
+    lines.push(
+      '',
+      `[Showing characters ${page.offset}-${end} of ${page.totalLength}. Call again with offset ${end} to read more.]`
+    );
+  }
+  if (page.truncatedBytes) {
+    lines.push('', '[The page was larger than the download limit; its end is missing.]');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The sources of the latest searches in one MCP session, so `fetch_source`
+ * can take a citation number instead of a URL.
+ */
+export class RecentSearches {
+  private results: SearchResult[] = [];
+
+  constructor(private readonly maxResults = 10) {}
+
+  remember(result: SearchResult): void {
+    this.results = [result, ...this.results.filter((recent) => recent.query !== result.query)].slice(0, this.maxResults);
+  }
+
+  /**
+   * Returns source `[index]` (1-based, as cited) of the latest search, or
+   * of the latest search for `query` when given.
+   */
+  source(index: number, query?: string): GroundingChunkItem & { web: { uri: string } } {
+    const result = query === undefined ? this.results[0] : this.results.find((recent) => recent.query === query);
+    if (!result) {
+      throw new InvalidArgumentError(
+        query === undefined ? 'No search has been run in this session yet.' : `No recent search for "${query}".`,
+        { hint: 'Run google_web_search first, or pass a url.' }
+      );
+    }
+    const source = Number.isInteger(index) ? result.sources[index - 1] : undefined;
+    if (!source?.web?.uri) {
+      throw new InvalidArgumentError(
+        `Source [${index}] does not exist in the search for "${result.query}" (it has ${result.sources.length} source(s)).`
+      );
+    }
+    return source as GroundingChunkItem & { web: { uri: string } };
+  }
+}
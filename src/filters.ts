@@ -0,0 +1,145 @@
+import { SearchResult } from './types.js';
+import { InvalidArgumentError } from './errors.js';
+import { getSourceDomain } from './format.js';
+import { remapSupports } from './grounding.js';
+
+export const TIME_RANGES = ['day', 'week', 'month', 'year'] as const;
+export type TimeRange = (typeof TIME_RANGES)[number];
+
+const TIME_RANGE_DAYS: Record<TimeRange, number> = { day: 1, week: 7, month: 31, year: 365 };
+
+export interface SearchFilters {
+  /** Only use sources from these domains (subdomains included). */
+  sites?: string[];
+  /** Never use sources from these domains (subdomains included). */
+  excludeSites?: string[];
+  /** Only use sources published within this period. */
+  timeRange?: TimeRange;
+  /** BCP 47 language of the answer and preferred sources, e.g. `ja`. */
+  language?: string;
+  /** ISO 3166-1 alpha-2 region to focus on, e.g. `JP`. */
+  region?: string;
+}
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return Boolean(
+    filters.sites?.length || filters.excludeSites?.length || filters.timeRange || filters.language || filters.region
+  );
+}
+
+/** Validates filters and normalizes site entries to bare lowercase domains. */
+export function normalizeFilters(filters: SearchFilters): SearchFilters {
+  const { sites, excludeSites, timeRange, language, region } = filters;
+  if (timeRange !== undefined && !TIME_RANGES.includes(timeRange)) {
+    throw new InvalidArgumentError(`Invalid timeRange "${timeRange}". Expected one of: ${TIME_RANGES.join(', ')}.`);
+  }
+  if (language !== undefined && (typeof language !== 'string' || !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/i.test(language))) {
+    throw new InvalidArgumentError(`Invalid language "${language}". Use a language code such as "en" or "ja".`);
+  }
+  if (region !== undefined && (typeof region !== 'string' || !/^[a-z]{2}$/i.test(region))) {
+    throw new InvalidArgumentError(`Invalid region "${region}". Use a two-letter country code such as "US" or "JP".`);
+  }
+  return {
+    sites: normalizeSites('sites', sites),
+    excludeSites: normalizeSites('excludeSites', excludeSites),
+    timeRange,
+    language,
+    region: region?.toUpperCase(),
+  };
+}
+
+function normalizeSites(name: string, sites: unknown): string[] | undefined {
+  if (sites === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(sites) || !sites.every((site) => typeof site === 'string')) {
+    throw new InvalidArgumentError(`${name} must be an array of domains.`);
+  }
+  return sites.map((site) => {
+    const domain = site.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/[/:?#].*$/, '').replace(/^www\./, '');
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+      throw new InvalidArgumentError(`Invalid domain "${site}" in ${name}.`);
+    }
+    return domain;
+  });
+}
+
+/** Adds `site:`, `-site:` and `after:` operators to the query. */
+export function applyQueryOperators(query: string, filters: SearchFilters, now = new Date()): string {
+  const operators: string[] = [];
+  if (filters.sites?.length) {
+    const sites = filters.sites.map((site) => `site:${site}`);
+    operators.push(sites.length > 1 ? `(${sites.join(' OR ')})` : sites[0]);
+  }
+  for (const site of filters.excludeSites ?? []) {
+    operators.push(`-site:${site}`);
+  }
+  if (filters.timeRange) {
+    operators.push(`after:${startDate(filters.timeRange, now)}`);
+  }
+  return operators.length > 0 ? `${query} ${operators.join(' ')}` : query;
+}
+
+/**
+ * Instructions that restate the filters for the model, since search
+ * operators alone are not always honored by grounding.
+ */
+export function filterInstruction(filters: SearchFilters, now = new Date()): string | undefined {
+  const lines: string[] = [];
+  if (filters.sites?.length) {
+    lines.push(`Only use sources from these sites: ${filters.sites.join(', ')}.`);
+  }
+  if (filters.excludeSites?.length) {
+    lines.push(`Do not use sources from these sites: ${filters.excludeSites.join(', ')}.`);
+  }
+  if (filters.timeRange) {
+    lines.push(`Only use sources published on or after ${startDate(filters.timeRange, now)}.`);
+  }
+  if (filters.language) {
+    lines.push(`Answer in the language with code "${filters.language}" and prefer sources written in it.`);
+  }
+  if (filters.region) {
+    lines.push(`Focus on results relevant to the region with country code "${filters.region}".`);
+  }
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+function startDate(timeRange: TimeRange, now: Date): string {
+  return new Date(now.getTime() - TIME_RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function matchesSite(domain: string, site: string): boolean {
+  return domain === site || domain.endsWith(`.${site}`);
+}
+
+/**
+ * Removes sources that violate the site rules and renumbers the grounding
+ * supports accordingly. With `sites`, sources whose domain cannot be
+ * determined are removed as well.
+ */
+export function filterSources(result: SearchResult, filters: SearchFilters): SearchResult {
+  const { sites, excludeSites } = filters;
+  if (!sites?.length && !excludeSites?.length) {
+    return result;
+  }
+
+  const newIndex = new Map<number, number>();
+  const sources = result.sources.filter((chunk, index) => {
+    const domain = getSourceDomain(chunk);
+    const allowed =
+      (!sites?.length || (domain !== '' && sites.some((site) => matchesSite(domain, site)))) &&
+      !excludeSites?.some((site) => matchesSite(domain, site));
+    if (allowed) {
+      newIndex.set(index, newIndex.size);
+    }
+    return allowed;
+  });
+  if (sources.length === result.sources.length) {
+    return result;
+  }
+
+  const supports = remapSupports(result.supports, newIndex);
+
+  console.error(`Removed ${result.sources.length - sources.length} source(s) that did not match the site filters`);
+  return { ...result, sources, supports };
+}
@@ -0,0 +1,167 @@
+import { formatSearchResult, insertCitationMarkers } from './citations.js';
+import {
+  GroundingOptions,
+  SourceClaim,
+  claimsBySource,
+  formatClaim,
+  isLowConfidence,
+  maxConfidence,
+  segmentText,
+} from './grounding.js';
+import { createSegmentResolver } from './offsets.js';
+import { GroundingChunkItem, SearchResult } from './types.js';
+
+export const OUTPUT_FORMATS = ['text', 'json', 'markdown'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface StructuredSource {
+  /** 1-based index, matching the `[n]` citation markers. */
+  index: number;
+  title: string;
+  uri: string;
+  domain: string;
+  /** Claims in the answer this source backed. */
+  claims: SourceClaim[];
+}
+
+export interface StructuredSupport {
+  /** UTF-8 byte offsets into `answer`, as reported by the API. */
+  startIndex: number;
+  endIndex: number;
+  text: string;
+  /** 1-based indices into `sources`. */
+  sourceIndices: number[];
+  confidenceScores: number[];
+  maxConfidence?: number;
+  /** Set when `minConfidence` was given and the support falls below it. */
+  lowConfidence: boolean;
+}
+
+export interface StructuredSearchResult {
+  query: string;
+  answer: string;
+  backend: string;
+  model?: string;
+  sources: StructuredSource[];
+  supports: StructuredSupport[];
+  // MCP structured content must be a plain JSON object
+  [key: string]: unknown;
+}
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === 'string' && (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+export function getDomain(uri: string): string {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/** Host of the opaque redirect links Gemini returns as grounding source URIs. */
+export const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+
+export function isGroundingRedirect(uri: string | undefined): boolean {
+  return getDomain(uri ?? '') === GROUNDING_REDIRECT_HOST;
+}
+
+/**
+ * Best-effort domain of a grounding chunk. For unresolved redirect URIs the
+ * title, which usually carries the source domain, is used as a hint.
+ */
+export function getSourceDomain(chunk: GroundingChunkItem): string {
+  const uri = chunk.web?.uri ?? '';
+  if (!isGroundingRedirect(uri)) {
+    return getDomain(uri);
+  }
+  const title = chunk.web?.title?.trim().toLowerCase().replace(/^www\./, '') ?? '';
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(title) ? title : '';
+}
+
+/**
+ * Builds the JSON shape of a search result. Offsets in `supports` refer to
+ * the unmodified `answer`; with `lowConfidence: 'drop'` the low-confidence
+ * supports are omitted rather than cut out of the answer.
+ */
+export function toStructuredResult(result: SearchResult, options: GroundingOptions = {}): StructuredSearchResult {
+  const claims = claimsBySource(result);
+  const resolveSegment = createSegmentResolver(result.responseText);
+  return {
+    query: result.query,
+    answer: result.responseText,
+    backend: result.backend,
+    model: result.model,
+    sources: result.sources.map((source, index) => {
+      return {
+        index: index + 1,
+        title: source.web?.title || 'Untitled',
+        uri: source.web?.uri || '',
+        domain: getSourceDomain(source),
+        claims: claims.get(index) ?? [],
+      };
+    }),
+    supports: result.supports
+      .filter((support) => support.segment)
+      .map((support) => ({
+        startIndex: support.segment!.startIndex ?? 0,
+        endIndex: support.segment!.endIndex,
+        text: segmentText(result.responseText, support.segment!, resolveSegment),
+        sourceIndices: (support.groundingChunkIndices ?? []).map((chunkIndex) => chunkIndex + 1),
+        confidenceScores: support.confidenceScores ?? [],
+        maxConfidence: maxConfidence(support),
+        lowConfidence: isLowConfidence(support, options.minConfidence),
+      }))
+      .filter((support) => !(support.lowConfidence && options.lowConfidence === 'drop')),
+  };
+}
+
+/**
+ * Renders a search result as Markdown: citation markers become links to the
+ * cited source and the sources are listed under a heading.
+ */
+export function formatMarkdown(result: SearchResult, options: GroundingOptions = {}): string {
+  const structured = toStructuredResult(result, options);
+  const linked = insertCitationMarkers(result.responseText, result.supports, {
+    ...options,
+    formatMarker: (n) => {
+      const source = structured.sources[n - 1];
+      return source?.uri ? `[[${n}]](${source.uri})` : `[${n}]`;
+    },
+  });
+
+  let markdown = `## ${result.query}\n\n${linked}`;
+  if (structured.sources.length > 0) {
+    markdown +=
+      '\n\n### Sources\n\n' +
+      structured.sources
+        .map((source) => {
+          const line = `${source.index}. [${source.title}](${source.uri})`;
+          if (!options.showGrounding) {
+            return line;
+          }
+          return [
+            line,
+            ...source.claims.map((claim) => `    - ${formatClaim(claim)}`),
+          ].join('\n');
+        })
+        .join('\n');
+  }
+  return markdown;
+}
+
+export function renderSearchResult(
+  result: SearchResult,
+  format: OutputFormat,
+  options: GroundingOptions = {},
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(toStructuredResult(result, options), null, 2);
+    case 'markdown':
+      return formatMarkdown(result, options);
+    default:
+      return formatSearchResult(result, options);
+  }
+}
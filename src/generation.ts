@@ -0,0 +1,79 @@
+import { getConfig } from './config.js';
+import { InvalidArgumentError } from './errors.js';
+
+export interface GenerationOptions {
+  /** Model name; backends use their own default when unset. */
+  model?: string;
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  systemInstruction?: string;
+}
+
+export interface GenerationSettings {
+  defaults: GenerationOptions;
+  /** Models that may be requested per call. */
+  allowedModels: string[];
+}
+
+/**
+ * Reads generation defaults and the model allowlist from the config
+ * (`model`, `temperature`, `top_k`, `top_p`, `max_output_tokens`,
+ * `system_instruction`, `allowed_models` or the matching GEMINI_* variables).
+ */
+export async function loadGenerationSettings(): Promise<GenerationSettings> {
+  const config = await getConfig();
+  const defaults = withoutUndefined({
+    model: config.model,
+    temperature: config.temperature,
+    topK: config.topK,
+    topP: config.topP,
+    maxOutputTokens: config.maxOutputTokens,
+    systemInstruction: config.systemInstruction,
+  });
+  return { defaults, allowedModels: [...config.allowedModels] };
+}
+
+/**
+ * Merges per-call overrides onto the configured defaults. Per-call models
+ * must be on the allowlist so callers cannot pick arbitrary (expensive) models.
+ */
+export function resolveGenerationOptions<T extends GenerationOptions>(
+  settings: GenerationSettings,
+  overrides: T,
+): T {
+  if (overrides.model !== undefined && !settings.allowedModels.includes(overrides.model)) {
+    throw new InvalidArgumentError(
+      `Model "${overrides.model}" is not allowed. Allowed models: ${settings.allowedModels.join(', ')}`
+    );
+  }
+  return validateGenerationOptions({ ...settings.defaults, ...withoutUndefined(overrides) } as T);
+}
+
+export function validateGenerationOptions<T extends GenerationOptions>(options: T): T {
+  checkRange('temperature', options.temperature, 0, 2);
+  checkRange('topP', options.topP, 0, 1);
+  checkRange('topK', options.topK, 1, 1000, true);
+  checkRange('maxOutputTokens', options.maxOutputTokens, 1, 65536, true);
+  if (options.model !== undefined && (typeof options.model !== 'string' || !options.model)) {
+    throw new InvalidArgumentError('model must be a non-empty string.');
+  }
+  if (options.systemInstruction !== undefined && typeof options.systemInstruction !== 'string') {
+    throw new InvalidArgumentError('systemInstruction must be a string.');
+  }
+  return options;
+}
+
+function checkRange(name: string, value: unknown, min: number, max: number, integer = false) {
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new InvalidArgumentError(`${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}.`);
+  }
+}
+
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
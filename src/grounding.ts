@@ -0,0 +1,104 @@
+import { createSegmentResolver } from './offsets.js';
+import { GroundingSupportItem, GroundingSupportSegment, SearchResult } from './types.js';
+
+export const LOW_CONFIDENCE_ACTIONS = ['mark', 'drop'] as const;
+export type LowConfidenceAction = (typeof LOW_CONFIDENCE_ACTIONS)[number];
+
+export interface GroundingOptions {
+  /** Supports whose highest confidence score is below this (0-1) are low confidence. */
+  minConfidence?: number;
+  /** What to do with low-confidence claims. Defaults to `mark`. */
+  lowConfidence?: LowConfidenceAction;
+  /** List the claims each source backed under the source list. */
+  showGrounding?: boolean;
+}
+
+export interface SourceClaim {
+  text: string;
+  confidence?: number;
+}
+
+export function maxConfidence(support: GroundingSupportItem): number | undefined {
+  const scores = support.confidenceScores ?? [];
+  return scores.length > 0 ? Math.max(...scores) : undefined;
+}
+
+/** Supports without confidence scores are never considered low confidence. */
+export function isLowConfidence(support: GroundingSupportItem, minConfidence?: number): boolean {
+  if (minConfidence === undefined) {
+    return false;
+  }
+  const confidence = maxConfidence(support);
+  return confidence !== undefined && confidence < minConfidence;
+}
+
+export function segmentText(
+  text: string,
+  segment: GroundingSupportSegment,
+  resolveSegment = createSegmentResolver(text),
+): string {
+  if (segment.text) {
+    return segment.text.trim();
+  }
+  const { start, end } = resolveSegment(segment);
+  return text.slice(start, end).trim();
+}
+
+export function formatClaim(claim: SourceClaim): string {
+  return claim.confidence === undefined
+    ? `"${claim.text}"`
+    : `"${claim.text}" (confidence: ${claim.confidence.toFixed(2)})`;
+}
+
+/**
+ * Groups the supported claims by the source that backed them, keyed by
+ * 0-based grounding chunk index.
+ */
+export function claimsBySource(result: SearchResult): Map<number, SourceClaim[]> {
+  const claims = new Map<number, SourceClaim[]>();
+  const resolveSegment = createSegmentResolver(result.responseText);
+  result.supports.forEach((support) => {
+    if (!support.segment) {
+      return;
+    }
+    const text = segmentText(result.responseText, support.segment, resolveSegment);
+    (support.groundingChunkIndices ?? []).forEach((chunkIndex, i) => {
+      const list = claims.get(chunkIndex) ?? [];
+      list.push({ text, confidence: support.confidenceScores?.[i] });
+      claims.set(chunkIndex, list);
+    });
+  });
+  return claims;
+}
+
+/**
+ * Rewrites the source indices of `supports` after sources were removed or
+ * merged. Indices missing from `mapping` are dropped, indices merged into
+ * one keep their highest confidence, and supports left without a source
+ * are removed.
+ */
+export function remapSupports(supports: GroundingSupportItem[], mapping: Map<number, number>): GroundingSupportItem[] {
+  return supports.flatMap((support) => {
+    const scores = new Map<number, number | undefined>();
+    (support.groundingChunkIndices ?? []).forEach((index, i) => {
+      const newIndex = mapping.get(index);
+      if (newIndex === undefined) {
+        return;
+      }
+      const score = support.confidenceScores?.[i];
+      const previous = scores.get(newIndex);
+      scores.set(newIndex, previous === undefined ? score : Math.max(previous, score ?? previous));
+    });
+    if (scores.size === 0) {
+      return [];
+    }
+    // スコアが一部欠けていると添字がずれるので、すべて揃っているときだけ残す
+    const { confidenceScores: _stale, ...rest } = support;
+    const confidenceScores = [...scores.values()].filter((score): score is number => score !== undefined);
+    return [{
+      ...rest,
+      groundingChunkIndices: [...scores.keys()],
+      ...(support.confidenceScores && confidenceScores.length === scores.size && { confidenceScores }),
+    }];
+  });
+}
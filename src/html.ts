@@ -0,0 +1,310 @@
+/**
+ * Minimal HTML to Markdown conversion for `fetch_source`: a forgiving
+ * tokenizer builds an element tree, boilerplate (navigation, headers,
+ * footers, scripts, cookie banners...) is dropped, and the main content is
+ * rendered as Markdown.
+ */
+
+interface Element {
+  tag: string;
+  attrs: Record<string, string>;
+  children: Node[];
+}
+
+type Node = Element | string;
+
+export interface HtmlDocument {
+  title: string;
+  markdown: string;
+}
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+/**
+ * Elements nested deeper than this are flattened into their ancestor at the
+ * limit, so hostile pages cannot make parsing or the recursive rendering blow
+ * up. Real pages stay far below it.
+ */
+const MAX_DEPTH = 256;
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'nav', 'header', 'footer',
+  'aside', 'form', 'button', 'select', 'textarea', 'dialog', 'menu', 'head',
+]);
+const SKIPPED_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'menu']);
+const BOILERPLATE_PATTERN =
+  /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|sidebar|cookies?|consent|newsletter|subscribe|share|social|ads?|advert\w*|promo|related|comments?|popup|modal|banner|skip-link)($|[\s_-])/i;
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'hr', 'html', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table', 'tbody', 'td', 'tfoot', 'th',
+  'thead', 'tr', 'ul', 'details', 'summary',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™', hellip: '…',
+  mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', middot: '·',
+  bull: '•', times: '×', deg: '°', euro: '€', yen: '¥', pound: '£',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTR_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+function parse(html: string): Element {
+  const root: Element = { tag: '#root', attrs: {}, children: [] };
+  const stack: Element[] = [root];
+  // 閉じタグごとにスタック全体を走査しないよう、開いている要素の数をタグごとに数える
+  const openCounts = new Map<string, number>();
+  let lastIndex = 0;
+  TOKEN_PATTERN.lastIndex = 0;
+
+  for (let match = TOKEN_PATTERN.exec(html); match; match = TOKEN_PATTERN.exec(html)) {
+    const current = stack[stack.length - 1];
+    if (match.index > lastIndex) {
+      current.children.push(decodeEntities(html.slice(lastIndex, match.index)));
+    }
+    lastIndex = TOKEN_PATTERN.lastIndex;
+
+    const [token, closing, rawTag, rawAttrs] = match;
+    if (!rawTag) {
+      continue; // comment, doctype or processing instruction
+    }
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      if (openCounts.get(tag)) {
+        let element: Element;
+        do {
+          element = stack.pop()!;
+          openCounts.set(element.tag, openCounts.get(element.tag)! - 1);
+        } while (element.tag !== tag);
+      }
+      continue;
+    }
+
+    const element: Element = { tag, attrs: parseAttributes(rawAttrs), children: [] };
+    current.children.push(element);
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // 文書全体を小文字に変換し直さずに、大文字小文字を無視して閉じタグを探す
+      const closeTag = new RegExp(`</${tag}`, 'gi');
+      closeTag.lastIndex = lastIndex;
+      const stop = closeTag.exec(html)?.index ?? html.length;
+      element.children.push(decodeEntities(html.slice(lastIndex, stop)));
+      const close = html.indexOf('>', stop);
+      lastIndex = close === -1 ? html.length : close + 1;
+      TOKEN_PATTERN.lastIndex = lastIndex;
+    } else if (!VOID_TAGS.has(tag) && !token.endsWith('/>') && stack.length <= MAX_DEPTH) {
+      stack.push(element);
+      openCounts.set(tag, (openCounts.get(tag) ?? 0) + 1);
+    }
+  }
+  if (lastIndex < html.length) {
+    stack[stack.length - 1].children.push(decodeEntities(html.slice(lastIndex)));
+  }
+  return root;
+}
+
+function find(element: Element, predicate: (element: Element) => boolean): Element | undefined {
+  for (const child of element.children) {
+    if (typeof child === 'string') {
+      continue;
+    }
+    if (predicate(child)) {
+      return child;
+    }
+    const found = find(child, predicate);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+function textContent(node: Node): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+function isBoilerplate(element: Element): boolean {
+  if (SKIPPED_TAGS.has(element.tag) || 'hidden' in element.attrs || element.attrs['aria-hidden'] === 'true') {
+    return true;
+  }
+  if (SKIPPED_ROLES.has(element.attrs.role)) {
+    return true;
+  }
+  if (['main', 'article', 'body', 'html'].includes(element.tag)) {
+    return false;
+  }
+  return BOILERPLATE_PATTERN.test(`${element.attrs.class ?? ''} ${element.attrs.id ?? ''}`);
+}
+
+interface RenderContext {
+  baseUrl: string;
+  listDepth: number;
+  /** Preformatted blocks, kept out of the whitespace cleanup and restored at the end. */
+  preformatted: string[];
+}
+
+function resolveUrl(href: string, baseUrl: string): string | null {
+  if (!href || /^(javascript|data|mailto):/i.test(href)) {
+    return null;
+  }
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function renderInline(nodes: Node[], context: RenderContext): string {
+  return nodes.map((node) => renderNode(node, context)).join('');
+}
+
+function renderNode(node: Node, context: RenderContext): string {
+  if (typeof node === 'string') {
+    return node.replace(/\s+/g, ' ');
+  }
+  if (isBoilerplate(node)) {
+    return '';
+  }
+
+  const { tag } = node;
+  const inner = () => renderInline(node.children, context);
+  const block = (text: string) => (text.trim() ? `\n\n${text.trim()}\n\n` : '');
+
+  switch (tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      return block(`${'#'.repeat(Number(tag[1]))} ${inner().trim()}`);
+    case 'p': case 'figcaption': case 'summary': case 'dt': case 'dd':
+      return block(inner());
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'strong': case 'b':
+      return emphasize(inner(), '**');
+    case 'em': case 'i':
+      return emphasize(inner(), '_');
+    case 'code':
+      return `\`${textContent(node).replace(/\s+/g, ' ')}\``;
+    case 'pre': {
+      const language = /language-([\w-]+)/.exec(
+        `${node.attrs.class ?? ''} ${find(node, (child) => child.tag === 'code')?.attrs.class ?? ''}`
+      )?.[1] ?? '';
+      context.preformatted.push(`\`\`\`${language}\n${textContent(node).replace(/^\n|\n\s*$/g, '')}\n\`\`\``);
+      return `\n\n\u0000${context.preformatted.length - 1}\u0000\n\n`;
+    }
+    case 'a': {
+      const text = inner().trim();
+      const href = resolveUrl(node.attrs.href ?? '', context.baseUrl);
+      if (!text) {
+        return '';
+      }
+      return href && !node.attrs.href?.startsWith('#') ? `[${text}](${href})` : text;
+    }
+    case 'img': {
+      const src = resolveUrl(node.attrs.src ?? '', context.baseUrl);
+      const alt = node.attrs.alt?.trim();
+      return alt && src ? `![${alt}](${src})` : '';
+    }
+    case 'ul': case 'ol': {
+      const nested: RenderContext = { ...context, listDepth: context.listDepth + 1 };
+      const indent = '  '.repeat(context.listDepth);
+      let number = Number(node.attrs.start ?? 1);
+      const items = node.children
+        .filter((child): child is Element => typeof child !== 'string' && child.tag === 'li' && !isBoilerplate(child))
+        .map((item) => {
+          const marker = tag === 'ol' ? `${number++}.` : '-';
+          const text = renderInline(item.children, nested).replace(/\n{2,}/g, '\n').trim();
+          return `${indent}${marker} ${text}`;
+        });
+      return items.length > 0 ? `\n\n${items.join('\n')}\n\n` : '';
+    }
+    case 'blockquote':
+      return block(
+        inner()
+          .trim()
+          .replace(/\n{3,}/g, '\n\n')
+          .split('\n')
+          .map((line) => `> ${line}`)
+          .join('\n')
+      );
+    case 'table': {
+      const rows: string[][] = [];
+      const collectRows = (element: Element) => {
+        for (const child of element.children) {
+          if (typeof child === 'string') continue;
+          if (child.tag === 'tr') {
+            rows.push(
+              child.children
+                .filter((cell): cell is Element => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+                .map((cell) => renderInline(cell.children, context).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim())
+            );
+          } else if (child.tag !== 'table') {
+            collectRows(child);
+          }
+        }
+      };
+      collectRows(node);
+      if (rows.length === 0) {
+        return '';
+      }
+      const width = Math.max(...rows.map((row) => row.length));
+      const lines = rows.map((row) => `| ${[...row, ...Array(width - row.length).fill('')].join(' | ')} |`);
+      lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+      return `\n\n${lines.join('\n')}\n\n`;
+    }
+    default:
+      return BLOCK_TAGS.has(tag) ? block(inner()) : inner();
+  }
+}
+
+/** Wraps text in an emphasis marker, keeping the surrounding whitespace outside it. */
+function emphasize(text: string, marker: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+/**
+ * Converts an HTML page to Markdown, keeping only its main content
+ * (`<main>`, `<article>` or `role="main"` when present, otherwise `<body>`).
+ */
+export function htmlToMarkdown(html: string, baseUrl: string): HtmlDocument {
+  const root = parse(html);
+  const titleElement = find(root, (element) => element.tag === 'title');
+  const h1 = find(root, (element) => element.tag === 'h1');
+  const title = (titleElement ? textContent(titleElement) : h1 ? textContent(h1) : '').replace(/\s+/g, ' ').trim();
+
+  const content =
+    find(root, (element) => element.tag === 'main' || element.attrs.role === 'main') ??
+    find(root, (element) => element.tag === 'article') ??
+    find(root, (element) => element.tag === 'body') ??
+    root;
+
+  const context: RenderContext = { baseUrl, listDepth: 0, preformatted: [] };
+  const markdown = renderNode({ ...content, tag: content.tag === '#root' ? 'div' : content.tag }, context)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+$/, '').replace(/^ +(?=[^ \-\d*>|])/, '').replace(/(\S) {2,}/g, '$1 '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => context.preformatted[Number(index)])
+    .trim();
+  return { title, markdown };
+}
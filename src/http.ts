@@ -0,0 +1,343 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ANONYMOUS_CLIENT, ClientAccessError, ClientIdentity } from './clients.js';
+
+export interface McpHttpServerOptions {
+  port: number;
+  host: string;
+  /** Creates the MCP server for a new client session. */
+  createServer: (client: ClientIdentity) => Server;
+  /**
+   * Maps the request's bearer token to a client, throwing a ClientAccessError
+   * to reject it. Every caller is anonymous when unset.
+   */
+  authenticate?: (token: string | undefined) => ClientIdentity;
+  /** Extra fields reported by the health endpoint. */
+  health?: () => Record<string, unknown>;
+  /**
+   * Host names accepted in the Host and Origin headers, besides localhost
+   * when listening on a loopback address. Any host is accepted when this is
+   * empty and the server listens on another address.
+   */
+  allowedHosts?: string[];
+  /** Open sessions at most; further sessions are refused until one closes. */
+  maxSessions?: number;
+  /** Sessions without a request for this long are closed. */
+  sessionIdleMs?: number;
+  /** How long `close()` waits for requests in progress before dropping connections. */
+  drainTimeoutMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  client: ClientIdentity;
+  /** Time of the latest request in this session. */
+  lastActive: number;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Serves MCP over HTTP so one authenticated process can be shared by many
+ * clients. Each client session gets its own MCP `Server` instance.
+ *
+ *   POST/GET/DELETE /mcp   Streamable HTTP transport
+ *   GET /sse, POST /messages   Legacy HTTP+SSE transport
+ *   GET /health            Health check
+ */
+export class McpHttpServer {
+  private httpServer: http.Server;
+  private sessions = new Map<string, Session>();
+  private readonly allowedHosts: Set<string>;
+  private readonly maxSessions: number;
+  private readonly sessionIdleMs: number;
+  private readonly drainTimeoutMs: number;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private closing = false;
+  /** POST requests (tool calls among them) that have not been answered yet. */
+  private inFlight = 0;
+  private onDrained: (() => void) | null = null;
+
+  constructor(private options: McpHttpServerOptions) {
+    // ループバックで待ち受けるときは、DNS リバインディング対策として Host と Origin を確認する
+    this.allowedHosts = new Set([
+      ...(options.allowedHosts ?? []).map((host) => host.toLowerCase()),
+      ...(isLoopback(options.host) ? LOOPBACK_HOSTS : []),
+    ]);
+    this.maxSessions = options.maxSessions ?? 100;
+    this.sessionIdleMs = options.sessionIdleMs ?? 30 * 60 * 1000;
+    this.drainTimeoutMs = options.drainTimeoutMs ?? 10_000;
+    this.httpServer = http.createServer((req, res) => {
+      if (req.method === 'POST') {
+        this.inFlight++;
+        res.once('close', () => {
+          if (--this.inFlight === 0) {
+            this.onDrained?.();
+          }
+        });
+      }
+      this.handle(req, res).catch((error) => {
+        console.error('[HTTP Error]', error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  get url(): string {
+    const address = this.httpServer.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        this.idleTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.sessionIdleMs, 60_000));
+        this.idleTimer.unref();
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stops accepting connections, waits up to `drainTimeoutMs` for requests
+   * in progress (such as running tool calls) to be answered, then closes
+   * every open session.
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+    }
+    const closed = new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+    this.httpServer.closeIdleConnections();
+    if (this.inFlight > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        new Promise<void>((resolve) => (this.onDrained = resolve)),
+        new Promise<void>((resolve) => (timer = setTimeout(resolve, this.drainTimeoutMs))),
+      ]);
+      clearTimeout(timer);
+    }
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map(({ server }) => server.close()));
+    this.httpServer.closeAllConnections();
+    await closed;
+  }
+
+  /** Closes sessions that have had no request for `sessionIdleMs`. */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleMs;
+    for (const [id, session] of this.sessions) {
+      if (session.lastActive < cutoff) {
+        this.sessions.delete(id);
+        session.server.close().catch(() => {});
+      }
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (!this.isAllowedHost(req)) {
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: host or origin not allowed');
+      return;
+    }
+    if (this.closing) {
+      res.setHeader('Connection', 'close');
+      sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+
+    if (pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: this.sessions.size, ...this.options.health?.() });
+      return;
+    }
+    if (pathname !== '/mcp' && pathname !== '/sse' && pathname !== '/messages') {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    let client: ClientIdentity;
+    try {
+      client = this.authenticate(req);
+    } catch (error) {
+      if (!(error instanceof ClientAccessError)) {
+        throw error;
+      }
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, `Unauthorized: ${error.message}`);
+      return;
+    }
+
+    if (pathname === '/mcp') {
+      await this.handleStreamableHttp(req, res, client);
+    } else if (pathname === '/sse' && req.method === 'GET') {
+      await this.handleSseConnect(res, client);
+    } else if (pathname === '/messages' && req.method === 'POST') {
+      const session = this.getSession(searchParams.get('sessionId') ?? '', client, res);
+      if (session && session.transport instanceof SSEServerTransport) {
+        await session.transport.handlePostMessage(req, res);
+      } else if (session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+      }
+    } else {
+      sendJson(res, 405, { error: 'Method not allowed' });
+    }
+  }
+
+  private authenticate(req: IncomingMessage): ClientIdentity {
+    if (!this.options.authenticate) {
+      return ANONYMOUS_CLIENT;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    return this.options.authenticate(match?.[1].trim());
+  }
+
+  /** Checks the Host and Origin headers against the allowed host names. */
+  private isAllowedHost(req: IncomingMessage): boolean {
+    if (this.allowedHosts.size === 0) {
+      return true;
+    }
+    const origin = req.headers.origin;
+    return hasAllowedHostname(`http://${req.headers.host ?? ''}`, this.allowedHosts) &&
+      (origin === undefined || hasAllowedHostname(origin, this.allowedHosts));
+  }
+
+  /** Refuses a new session when `maxSessions` are already open. */
+  private hasRoomForSession(res: ServerResponse): boolean {
+    if (this.sessions.size < this.maxSessions) {
+      return true;
+    }
+    sendJsonRpcError(res, 503, -32000, 'Too many open sessions. Close an existing session or try again later.');
+    return false;
+  }
+
+  /** Looks up a session, rejecting requests from a different client than the one that opened it. */
+  private getSession(sessionId: string, client: ClientIdentity, res: ServerResponse): Session | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return null;
+    }
+    if (session.client !== client) {
+      sendJsonRpcError(res, 403, -32001, 'Session belongs to another client');
+      return null;
+    }
+    session.lastActive = Date.now();
+    return session;
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse, client: ClientIdentity): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.getSession(sessionId, client, res);
+      if (session && session.transport instanceof StreamableHTTPServerTransport) {
+        await session.transport.handleRequest(req, res);
+      } else if (session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+      }
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    if (!this.hasRoomForSession(res)) {
+      return;
+    }
+
+    const server = this.options.createServer(client);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, server, client, lastActive: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(res: ServerResponse, client: ClientIdentity): Promise<void> {
+    if (!this.hasRoomForSession(res)) {
+      return;
+    }
+    const server = this.options.createServer(client);
+    const transport = new SSEServerTransport('/messages', res);
+    this.sessions.set(transport.sessionId, { transport, server, client, lastActive: Date.now() });
+    res.on('close', () => {
+      this.sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
+    await server.connect(transport);
+  }
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\./.test(host);
+}
+
+function hasAllowedHostname(url: string, allowed: Set<string>): boolean {
+  try {
+    return allowed.has(new URL(url).hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -1,60 +1,351 @@
-import { OAuth2Client, Credentials } from 'google-auth-library';
+import { AuthClient, GoogleAuth, OAuth2Client, Credentials, CodeChallengeMethod } from 'google-auth-library';
 import * as http from 'http';
+import * as readline from 'readline/promises';
 import * as url from 'url';
 import * as crypto from 'crypto';
 import * as net from 'net';
 import open from 'open';
-import * as path from 'path';
-import { promises as fs } from 'fs';
-import * as os from 'os';
-
-// OAuth Client ID for Gemini CLI
-const OAUTH_CLIENT_ID = process.env.OAUTH_CLIENT_ID || '';
-const OAUTH_CLIENT_SECRET = process.env.OAUTH_CLIENT_SECRET || '';
+import { Config, getConfig } from './config.js';
+import { CredentialStore } from './credentials.js';
+import {
+  AuthExpiredError,
+  InvalidArgumentError,
+  QuotaExceededError,
+  SearchError,
+  UpstreamError,
+  describeError,
+  toSearchError,
+} from './errors.js';
 
 // OAuth Scopes for Google AI Platform
 const OAUTH_SCOPE = [
   'https://www.googleapis.com/auth/generative-language.retriever',
   'https://www.googleapis.com/auth/cloud-platform',
+  // gsearch auth status でアカウントのメールアドレスを表示するため
+  'https://www.googleapis.com/auth/userinfo.email',
 ];
 
 const HTTP_REDIRECT = 301;
 const SIGN_IN_SUCCESS_URL = 'https://developers.google.com/gemini-code-assist/auth_success_gemini';
 const SIGN_IN_FAILURE_URL = 'https://developers.google.com/gemini-code-assist/auth_failure_gemini';
 
-const GEMINI_DIR = '.gemini';
-const CREDENTIAL_FILENAME = 'mcp_oauth_creds.json';
+// 手動フローのリダイレクト先。ページは開けないので、ユーザーが URL を貼り付ける
+const MANUAL_REDIRECT_URI = 'http://localhost:8085/oauth2callback';
+const DEVICE_CODE_URL = 'https://oauth2.googleapis.com/device/code';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+// デバイスフローの各リクエストの上限。応答がなくてもログインが止まらないようにする
+const DEVICE_REQUEST_TIMEOUT_MS = 30_000;
+
+// stdio の MCP サーバーでは標準入力が JSON-RPC の通信路なので、プロンプトで読んではいけない
+let stdinIsProtocolChannel = false;
 
 export interface OauthWebLogin {
   authUrl: string;
   loginCompletePromise: Promise<void>;
 }
 
+/** How to sign in when no cached credentials exist (`oauth_flow`). */
+export type OauthFlow = 'browser' | 'manual' | 'device';
+
+/**
+ * The client for the Code Assist API: Application Default Credentials when
+ * `use_adc` or `application_credentials` is set, so no browser is needed,
+ * otherwise the Google login of `auth_profile`.
+ */
+export async function getAuthClient(): Promise<AuthClient> {
+  return usesApplicationDefaultCredentials(await getConfig()) ? getApplicationDefaultClient() : getOauthClient();
+}
+
+export function usesApplicationDefaultCredentials(config: Config): boolean {
+  return config.useAdc || config.applicationCredentials !== undefined;
+}
+
+/**
+ * Application Default Credentials through GoogleAuth: the `application_credentials`
+ * file (a service account key, an external account config for workload
+ * identity federation, or gcloud user credentials), otherwise
+ * `gcloud auth application-default login` or the metadata server on Google Cloud.
+ * Throws AuthExpiredError when no access token can be obtained.
+ */
+export async function getApplicationDefaultClient(): Promise<AuthClient> {
+  const config = await getConfig();
+  const auth = new GoogleAuth({ keyFilename: config.applicationCredentials, scopes: OAUTH_SCOPE });
+  try {
+    const client = await auth.getClient();
+    const { token } = await client.getAccessToken();
+    if (!token) {
+      throw new Error('No access token was returned');
+    }
+    return client;
+  } catch (error) {
+    const searchError = toSearchError(error);
+    if (searchError instanceof UpstreamError || searchError instanceof QuotaExceededError) {
+      throw searchError;
+    }
+    throw new AuthExpiredError(
+      `Application Default Credentials are not usable: ${error instanceof Error ? error.message : error}`,
+      {
+        cause: error,
+        hint: config.applicationCredentials
+          ? `Check the credentials file ${config.applicationCredentials} (GOOGLE_APPLICATION_CREDENTIALS).`
+          : 'Set GOOGLE_APPLICATION_CREDENTIALS to a service account key or external account config, ' +
+            'or run `gcloud auth application-default login`.',
+      },
+    );
+  }
+}
+
 export async function getOauthClient(): Promise<OAuth2Client> {
-  const client = new OAuth2Client({
-    clientId: OAUTH_CLIENT_ID,
-    clientSecret: OAUTH_CLIENT_SECRET,
-  });
+  const config = await getConfig();
+  const client = createOauthClient(config);
 
   if (await loadCachedCredentials(client)) {
     return client;
   }
+  return loginWithOauth();
+}
 
-  const webLogin = await authWithWeb(client);
+/**
+ * Signs in to the `auth_profile` profile with the configured flow, replacing
+ * any stored login, and caches the new credentials.
+ */
+export async function loginWithOauth(): Promise<OAuth2Client> {
+  const config = await getConfig();
+  const client = createOauthClient(config);
+
+  const flow = config.oauthFlow === 'auto' ? detectOauthFlow() : config.oauthFlow;
+  if (flow === 'manual') {
+    await authWithCode(client);
+  } else if (flow === 'device') {
+    await authWithDeviceCode(client, config.oauthClientId, config.oauthClientSecret);
+  } else {
+    const webLogin = await authWithWeb(client);
+
+    console.error(
+      `\n\nGoogle login required for Gemini Web Search.\n` +
+      `Attempting to open authentication page in your browser.\n` +
+      `Otherwise navigate to:\n\n${webLogin.authUrl}\n\n`,
+    );
+
+    await open(webLogin.authUrl);
+    console.error('Waiting for authentication...');
+
+    await webLogin.loginCompletePromise;
+  }
+  console.error('Authentication successful!');
+
+  return client;
+}
+
+/**
+ * A client with the stored credentials of `profile` (default: `auth_profile`),
+ * without checking them, or null when the profile has no login.
+ */
+export async function getCachedOauthClient(profile?: string): Promise<OAuth2Client | null> {
+  const config = await getConfig();
+  const login = await (await CredentialStore.fromConfig()).load(profile ?? config.authProfile);
+  if (!login) {
+    return null;
+  }
+  const client = createOauthClient(config);
+  client.setCredentials(login.credentials);
+  return client;
+}
+
+/**
+ * Marks stdin as the MCP stdio channel. Logins then never prompt on it:
+ * `oauth_flow: auto` and the manual flow fail with a hint to sign in from a
+ * terminal instead.
+ */
+export function reserveStdinForProtocol(): void {
+  stdinIsProtocolChannel = true;
+}
+
+function createOauthClient(config: Config): OAuth2Client {
+  // OAuth Client ID for Gemini CLI
+  return new OAuth2Client({
+    clientId: config.oauthClientId,
+    clientSecret: config.oauthClientSecret,
+  });
+}
+
+/**
+ * Picks the login flow for `oauth_flow: auto`. The browser flow needs a
+ * browser on this machine, which SSH sessions, CI and Linux without a display
+ * do not have. There, the code is pasted when a terminal is attached.
+ * Without one (for example in an MCP server over stdio) no flow can work, so
+ * this throws: the device flow is never picked, because Google does not
+ * allow the scopes searches need in it.
+ */
+export function detectOauthFlow(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+  interactive = process.stdin.isTTY === true && !stdinIsProtocolChannel,
+): OauthFlow {
+  const remote = Boolean(env.SSH_CONNECTION || env.SSH_CLIENT || env.SSH_TTY);
+  const noDisplay = platform === 'linux' && !env.DISPLAY && !env.WAYLAND_DISPLAY;
+  if (!env.CI && !remote && !noDisplay) {
+    return 'browser';
+  }
+  if (!interactive) {
+    throw new InvalidArgumentError('Google login is required, but there is no browser or terminal to sign in with.', {
+      hint: 'Sign in once from a terminal with `gsearch auth login --oauth-flow manual`; the server then uses the saved login.',
+    });
+  }
+  return 'manual';
+}
+
+/**
+ * Headless login: prints the consent URL and reads back the URL the browser
+ * was redirected to (or just its code). PKCE keeps the code useless to anyone
+ * else who sees it.
+ */
+async function authWithCode(client: OAuth2Client): Promise<void> {
+  if (stdinIsProtocolChannel || !process.stdin.isTTY) {
+    throw new InvalidArgumentError(
+      `The manual login flow reads the code from a terminal, but stdin is ${
+        stdinIsProtocolChannel ? 'the MCP stdio channel' : 'not a terminal'
+      }.`,
+      {
+        hint: 'Sign in from a terminal first with `gsearch auth login --oauth-flow manual`.',
+      },
+    );
+  }
+
+  const state = crypto.randomBytes(32).toString('hex');
+  const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+  const authUrl = client.generateAuthUrl({
+    redirect_uri: MANUAL_REDIRECT_URI,
+    access_type: 'offline',
+    scope: OAUTH_SCOPE,
+    state,
+    code_challenge_method: CodeChallengeMethod.S256,
+    code_challenge: codeChallenge,
+  });
 
   console.error(
     `\n\nGoogle login required for Gemini Web Search.\n` +
-    `Attempting to open authentication page in your browser.\n` +
-    `Otherwise navigate to:\n\n${webLogin.authUrl}\n\n`,
+    `Open this URL in a browser on any device:\n\n${authUrl}\n\n` +
+    `After you allow access, the browser is sent to a localhost page that does not load.\n` +
+    `Copy the full URL from the address bar (or just its "code" parameter) and paste it here.\n`,
   );
-  
-  await open(webLogin.authUrl);
-  console.error('Waiting for authentication...');
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stderr });
+  let answer: string;
+  try {
+    answer = await prompt.question('Authorization code or URL: ');
+  } finally {
+    prompt.close();
+  }
 
-  await webLogin.loginCompletePromise;
-  console.error('Authentication successful!');
+  const { tokens } = await client.getToken({
+    code: parseAuthorizationResponse(answer, state),
+    codeVerifier,
+    redirect_uri: MANUAL_REDIRECT_URI,
+  });
+  client.setCredentials(tokens);
+  await cacheCredentials(client.credentials);
+}
 
-  return client;
+/** Reads the authorization code from a pasted redirect URL or a bare code. */
+export function parseAuthorizationResponse(input: string, state: string): string {
+  const text = input.trim();
+  if (!/^https?:\/\//i.test(text)) {
+    if (!text) {
+      throw new Error('No authorization code was entered.');
+    }
+    // コードだけを URL からコピーした場合は %2F などがエンコードされたまま
+    return decodeURIComponent(text);
+  }
+
+  const qs = new url.URL(text).searchParams;
+  if (qs.get('error')) {
+    throw new Error(`Error during authentication: ${qs.get('error')}`);
+  }
+  if (qs.get('state') !== state) {
+    throw new Error('State mismatch. Possible CSRF attack');
+  }
+  const code = qs.get('code');
+  if (!code) {
+    throw new Error('No code found in the pasted URL');
+  }
+  return code;
+}
+
+/**
+ * OAuth device flow (RFC 8628): shows a short code to enter at Google's
+ * verification page on any device and polls until the login completes.
+ * Google only offers it to "TVs and Limited Input devices" OAuth clients and
+ * only for a short list of scopes, so it is used only when configured.
+ */
+async function authWithDeviceCode(client: OAuth2Client, clientId?: string, clientSecret?: string): Promise<void> {
+  if (!clientId) {
+    throw new Error('The device login flow requires an OAuth client. Set OAUTH_CLIENT_ID and OAUTH_CLIENT_SECRET.');
+  }
+
+  const started = await fetch(DEVICE_CODE_URL, {
+    method: 'POST',
+    body: new URLSearchParams({ client_id: clientId, scope: OAUTH_SCOPE.join(' ') }),
+    signal: AbortSignal.timeout(DEVICE_REQUEST_TIMEOUT_MS),
+  });
+  const device = await started.json();
+  if (!started.ok) {
+    throw new Error(
+      `Could not start the device login: ${device.error_description ?? device.error ?? started.status}. ` +
+      'The device flow needs a "TVs and Limited Input devices" OAuth client whose scopes Google allows there; ' +
+      'otherwise use OAUTH_FLOW=manual.'
+    );
+  }
+
+  console.error(
+    `\n\nGoogle login required for Gemini Web Search.\n` +
+    `On any device, open ${device.verification_url} and enter the code:\n\n    ${device.user_code}\n\n`,
+  );
+  console.error('Waiting for authentication...');
+
+  let intervalMs = (device.interval ?? 5) * 1000;
+  const expiresAt = Date.now() + device.expires_in * 1000;
+  while (Date.now() + intervalMs < expiresAt) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    let response: Response;
+    let result;
+    try {
+      response = await fetch(TOKEN_URL, {
+        method: 'POST',
+        body: new URLSearchParams({
+          client_id: clientId,
+          ...(clientSecret && { client_secret: clientSecret }),
+          device_code: device.device_code,
+          grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+        }),
+        signal: AbortSignal.timeout(Math.min(DEVICE_REQUEST_TIMEOUT_MS, Math.max(1, expiresAt - Date.now()))),
+      });
+      result = await response.json();
+    } catch (error) {
+      // 応答しなかった問い合わせは次の間隔で再試行する
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        continue;
+      }
+      throw error;
+    }
+    if (response.ok) {
+      client.setCredentials({
+        access_token: result.access_token,
+        refresh_token: result.refresh_token,
+        scope: result.scope,
+        token_type: result.token_type,
+        id_token: result.id_token,
+        expiry_date: Date.now() + result.expires_in * 1000,
+      });
+      await cacheCredentials(client.credentials);
+      return;
+    }
+    if (result.error === 'slow_down') {
+      intervalMs += 5000;
+    } else if (result.error !== 'authorization_pending') {
+      throw new Error(`Device login failed: ${result.error_description ?? result.error}`);
+    }
+  }
+  throw new Error('The device code expired before the login was completed. Try again.');
 }
 
 async function authWithWeb(client: OAuth2Client): Promise<OauthWebLogin> {
@@ -139,9 +430,11 @@ export function getAvailablePort(): Promise<number> {
 
 async function loadCachedCredentials(client: OAuth2Client): Promise<boolean> {
   try {
-    const keyFile = process.env.GOOGLE_APPLICATION_CREDENTIALS || getCachedCredentialPath();
-    const creds = await fs.readFile(keyFile, 'utf-8');
-    client.setCredentials(JSON.parse(creds));
+    const login = await (await CredentialStore.fromConfig()).load((await getConfig()).authProfile);
+    if (!login) {
+      return false;
+    }
+    client.setCredentials(login.credentials);
 
     // Verify credentials
     const { token } = await client.getAccessToken();
@@ -152,27 +445,25 @@ async function loadCachedCredentials(client: OAuth2Client): Promise<boolean> {
     // Check if token is valid
     await client.getTokenInfo(token);
     return true;
-  } catch (_) {
+  } catch (error) {
+    if (error instanceof SearchError) {
+      // 復号できない場合などは理由を表示してからログインし直す
+      console.error(describeError(error));
+    }
     return false;
   }
 }
 
+/** Saves the login of the `auth_profile` profile, keeping the project it already has. */
 async function cacheCredentials(credentials: Credentials) {
-  const filePath = getCachedCredentialPath();
-  await fs.mkdir(path.dirname(filePath), { recursive: true });
-
-  const credString = JSON.stringify(credentials, null, 2);
-  await fs.writeFile(filePath, credString);
+  const store = await CredentialStore.fromConfig();
+  const profile = (await getConfig()).authProfile;
+  const existing = await store.load(profile).catch(() => null);
+  await store.save(profile, { credentials, projectId: existing?.projectId });
 }
 
-function getCachedCredentialPath(): string {
-  return path.join(os.homedir(), GEMINI_DIR, CREDENTIAL_FILENAME);
+/** Deletes the stored login of `profile` (default: `auth_profile`). Returns false when there was none. */
+export async function clearCachedCredentials(profile?: string): Promise<boolean> {
+  const store = await CredentialStore.fromConfig();
+  return store.remove(profile ?? (await getConfig()).authProfile);
 }
-
-export async function clearCachedCredentialFile() {
-  try {
-    await fs.rm(getCachedCredentialPath());
-  } catch (_) {
-    // Ignore errors
-  }
-}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { GroundingSupportSegment } from './types.js';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Grounding segment offsets are UTF-8 byte offsets into the response text,
+ * while JavaScript strings are indexed by UTF-16 code unit. The returned
+ * resolver converts a segment into a string range whose ends fall on
+ * grapheme boundaries, so markers never split a multi-byte character,
+ * surrogate pair, combining sequence or emoji ZWJ sequence.
+ */
+export function createSegmentResolver(text: string): (segment: GroundingSupportSegment) => TextRange {
+  const byteToIndex = buildByteIndex(text);
+  const boundaries = graphemeBoundaries(text);
+
+  const toIndex = (byteOffset: number): number => {
+    const clamped = Math.min(Math.max(0, Math.floor(byteOffset)), byteToIndex.length - 1);
+    return snapToBoundary(boundaries, byteToIndex[clamped]);
+  };
+
+  return (segment) => {
+    let start = toIndex(segment.startIndex ?? 0);
+    let end = toIndex(segment.endIndex);
+
+    // Offsets that disagree with the segment text (e.g. a backend that
+    // counts code units instead of bytes) are recovered by locating the text.
+    const expected = segment.text;
+    if (expected && text.slice(start, end) !== expected) {
+      const found = findNearest(text, expected, start);
+      if (found !== -1) {
+        start = found;
+        end = snapToBoundary(boundaries, found + expected.length);
+      }
+    }
+    return { start, end: Math.max(start, end) };
+  };
+}
+
+/** Maps every byte offset to the string index of the code point at or after it. */
+function buildByteIndex(text: string): Int32Array {
+  const byteLength = Buffer.byteLength(text, 'utf8');
+  const byteToIndex = new Int32Array(byteLength + 1);
+  let byte = 0;
+  let index = 0;
+  for (const char of text) {
+    const size = Buffer.byteLength(char, 'utf8');
+    for (let i = 0; i < size; i++) {
+      // Offsets inside a code point move forward to the next one
+      byteToIndex[byte + i] = i === 0 ? index : index + char.length;
+    }
+    byte += size;
+    index += char.length;
+  }
+  byteToIndex[byteLength] = text.length;
+  return byteToIndex;
+}
+
+function graphemeBoundaries(text: string): number[] {
+  const boundaries: number[] = [];
+  for (const { index } of new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)) {
+    boundaries.push(index);
+  }
+  boundaries.push(text.length);
+  return boundaries;
+}
+
+/** Smallest grapheme boundary at or after `index`. */
+function snapToBoundary(boundaries: number[], index: number): number {
+  let low = 0;
+  let high = boundaries.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (boundaries[mid] < index) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return boundaries[low];
+}
+
+function findNearest(text: string, search: string, near: number): number {
+  let best = -1;
+  for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + 1)) {
+    if (best === -1 || Math.abs(i - near) < Math.abs(best - near)) {
+      best = i;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,318 @@
+import { GroundingChunkItem } from './types.js';
+import { SearchError } from './errors.js';
+import { formatSourceList, insertCitationMarkers } from './citations.js';
+import { GroundingOptions } from './grounding.js';
+import { OutputFormat, getSourceDomain } from './format.js';
+import { BatchSearchOptions, searchBatch } from './batch.js';
+import type { SearchCallOptions, SearchService } from './search.js';
+
+export interface ResearchOptions extends BatchSearchOptions, Pick<GroundingOptions, 'minConfidence' | 'lowConfidence'> {
+  /** Planning and search rounds; each round plans follow-up queries from the findings so far. */
+  maxSteps?: number;
+  /** Searches across all rounds. */
+  maxQueries?: number;
+}
+
+export interface ResearchStep {
+  round: number;
+  query: string;
+  /** 1-based numbers of the report's sources this search found. */
+  sourceNumbers: number[];
+  error?: SearchError;
+}
+
+export interface ResearchReport {
+  question: string;
+  /** The synthesized report with `[n]` citations into `sources`. */
+  report: string;
+  /** Sources of every search, merged; cited sources come first, in order of first citation. */
+  sources: GroundingChunkItem[];
+  steps: ResearchStep[];
+  backend: string;
+  model?: string;
+}
+
+interface Finding {
+  query: string;
+  /** The search answer with citations renumbered to the merged source list. */
+  text: string;
+}
+
+/**
+ * Answers a complex question by planning sub-queries, running them through
+ * the normal search path in rounds, and having the model write a report
+ * from the findings. Sources of all searches are merged so the report's
+ * citations use one numbering.
+ */
+export async function deepResearch(
+  service: SearchService,
+  question: string,
+  { maxSteps = 3, maxQueries = 8, minConfidence, lowConfidence, concurrency, beforeSearch, ...searchOptions }: ResearchOptions = {},
+): Promise<ResearchReport> {
+  const { sites, excludeSites, timeRange, language, region, ...generation } = searchOptions;
+  // 計画と執筆の呼び出しは検索を使わず、フィルタも適用しない
+  const writerOptions: SearchCallOptions = { ...generation, grounding: false };
+
+  const sources: GroundingChunkItem[] = [];
+  const sourceNumbers = new Map<string, number>();
+  const addSource = (source: GroundingChunkItem): number => {
+    const key = source.web?.uri ?? `title:${source.web?.title ?? sources.length}`;
+    let number = sourceNumbers.get(key);
+    if (number === undefined) {
+      sources.push(source);
+      number = sources.length;
+      sourceNumbers.set(key, number);
+    }
+    return number;
+  };
+
+  const findings: Finding[] = [];
+  const steps: ResearchStep[] = [];
+  let backend: string | undefined;
+  let model: string | undefined;
+
+  for (let round = 1; round <= maxSteps && steps.length < maxQueries; round++) {
+    // Spread the remaining searches over the remaining rounds
+    const limit = Math.ceil((maxQueries - steps.length) / (maxSteps - round + 1));
+    let queries: string[];
+    try {
+      const plan = await service.search(planPrompt(question, findings, limit), writerOptions);
+      queries = parseQueries(plan.responseText, [question, ...steps.map((step) => step.query)]).slice(0, limit);
+    } catch (error) {
+      if (round === 1 || searchOptions.signal?.aborted) {
+        throw error;
+      }
+      console.error(`Deep research planning failed in round ${round}, writing the report from the findings so far:`, error);
+      break;
+    }
+    if (queries.length === 0) {
+      if (round > 1) {
+        break;
+      }
+      queries = [question];
+    }
+
+    console.error(`Deep research round ${round}: ${queries.length} search(es)`);
+    const items = await searchBatch(service, queries, {
+      ...searchOptions,
+      concurrency,
+      beforeSearch,
+    });
+    for (const item of items) {
+      if (item.error) {
+        steps.push({ round, query: item.query, sourceNumbers: [], error: item.error });
+        continue;
+      }
+      const numbers = item.result.sources.map(addSource);
+      const text = insertCitationMarkers(item.result.responseText, item.result.supports, {
+        formatMarker: (n) => (numbers[n - 1] ? `[${numbers[n - 1]}]` : ''),
+        minConfidence,
+        lowConfidence,
+      });
+      steps.push({ round, query: item.query, sourceNumbers: [...new Set(numbers)] });
+      if (text.trim()) {
+        findings.push({ query: item.query, text });
+      }
+      backend ??= item.result.backend;
+      model ??= item.result.model;
+    }
+  }
+
+  if (findings.length === 0) {
+    throw steps.find((step) => step.error)?.error ??
+      new SearchError(`Deep research found no information for "${question}".`);
+  }
+
+  const written = await service.search(reportPrompt(question, findings, sources, language), writerOptions);
+  const { text, order } = renumberCitations(written.responseText, sources.length);
+  return {
+    question,
+    report: text,
+    sources: order.map((number) => sources[number - 1]),
+    steps: steps.map((step) => ({
+      ...step,
+      sourceNumbers: step.sourceNumbers.map((number) => order.indexOf(number) + 1).sort((a, b) => a - b),
+    })),
+    backend: backend ?? written.backend,
+    model: model ?? written.model,
+  };
+}
+
+function planPrompt(question: string, findings: Finding[], limit: number): string {
+  if (findings.length === 0) {
+    return [
+      'You are planning web research to answer the question below.',
+      `Break it into at most ${limit} focused web search queries that together cover every part of the question.`,
+      'Reply with a JSON array of query strings and nothing else.',
+      '',
+      `Question: ${question}`,
+    ].join('\n');
+  }
+  return [
+    'You are doing web research to answer the question below. These searches have been run so far:',
+    '',
+    ...findings.map((finding) => `### ${finding.query}\n${summarize(finding.text)}`),
+    '',
+    `Reply with a JSON array of at most ${limit} new web search queries that would fill the remaining gaps,`,
+    'or [] if the findings already answer the question fully. Reply with the JSON array and nothing else.',
+    '',
+    `Question: ${question}`,
+  ].join('\n');
+}
+
+function reportPrompt(question: string, findings: Finding[], sources: GroundingChunkItem[], language?: string): string {
+  return [
+    'Write a well-structured research report that answers the question below, using only the findings from web searches given here.',
+    'Cite the sources of every claim with the bracketed source numbers used in the findings, for example [3] or [2][5].',
+    'Do not use any other citation numbers and do not add a source list.',
+    ...(language ? [`Write the report in the language with code "${language}".`] : []),
+    '',
+    `Question: ${question}`,
+    '',
+    'Findings:',
+    '',
+    ...findings.map((finding) => `### ${finding.query}\n${finding.text}\n`),
+    'Sources:',
+    ...formatSourceList(sources),
+  ].join('\n');
+}
+
+/** Shortens a finding for the planning prompt. */
+function summarize(text: string, maxLength = 600): string {
+  const plain = text.replace(/\[\d+\]/g, '').replace(/\s+/g, ' ').trim();
+  return plain.length > maxLength ? `${plain.slice(0, maxLength)}…` : plain;
+}
+
+/**
+ * Reads the planned queries from the model's reply: a JSON array, possibly
+ * inside a code fence, or else one query per line. Queries already run are skipped.
+ */
+export function parseQueries(text: string, done: string[]): string[] {
+  let candidates: unknown[] | undefined;
+  const json = /\[[\s\S]*\]/.exec(text)?.[0];
+  if (json) {
+    try {
+      const parsed = JSON.parse(json);
+      candidates = Array.isArray(parsed) ? parsed : undefined;
+    } catch {
+      // Not JSON after all; read it as a list
+    }
+  }
+  candidates ??= text
+    .split('\n')
+    .map((line) => line.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').replace(/^["']|["'],?$/g, '').trim())
+    .filter((line) => line && !line.startsWith('```'));
+
+  const seen = new Set(done.map((query) => query.trim().toLowerCase()));
+  const queries: string[] = [];
+  for (const candidate of candidates) {
+    const query = typeof candidate === 'string' ? candidate.trim() : '';
+    if (query && !seen.has(query.toLowerCase())) {
+      seen.add(query.toLowerCase());
+      queries.push(query);
+    }
+  }
+  return queries;
+}
+
+/**
+ * Renumbers `[n]` citations (and `[n, m]` groups) in order of first use and
+ * drops numbers outside `1..sourceCount`. `order` lists the old numbers in
+ * their new order, cited sources first.
+ */
+export function renumberCitations(text: string, sourceCount: number): { text: string; order: number[] } {
+  const order: number[] = [];
+  const renumbered = text.replace(/\[(\d+(?:\s*,\s*\d+)*)\]/g, (_, group: string) =>
+    group
+      .split(',')
+      .map(Number)
+      .filter((number) => number >= 1 && number <= sourceCount)
+      .map((number) => {
+        if (!order.includes(number)) {
+          order.push(number);
+        }
+        return `[${order.indexOf(number) + 1}]`;
+      })
+      .join('')
+  );
+  for (let number = 1; number <= sourceCount; number++) {
+    if (!order.includes(number)) {
+      order.push(number);
+    }
+  }
+  return { text: renumbered, order };
+}
+
+export interface StructuredResearchReport {
+  question: string;
+  report: string;
+  backend: string;
+  model?: string;
+  sources: { index: number; title: string; uri: string; domain: string }[];
+  steps: { round: number; query: string; sourceIndices: number[]; error?: { type: string; message: string } }[];
+  // MCP structured content must be a plain JSON object
+  [key: string]: unknown;
+}
+
+export function toStructuredResearch(report: ResearchReport): StructuredResearchReport {
+  return {
+    question: report.question,
+    report: report.report,
+    backend: report.backend,
+    model: report.model,
+    sources: report.sources.map((source, index) => ({
+      index: index + 1,
+      title: source.web?.title || 'Untitled',
+      uri: source.web?.uri || '',
+      domain: getSourceDomain(source),
+    })),
+    steps: report.steps.map((step) => ({
+      round: step.round,
+      query: step.query,
+      sourceIndices: step.sourceNumbers,
+      ...(step.error ? { error: { type: step.error.name, message: step.error.message } } : {}),
+    })),
+  };
+}
+
+/** Renders the report with its source list and the searches it ran. */
+export function renderResearchReport(report: ResearchReport, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(toStructuredResearch(report), null, 2);
+  }
+
+  const searches = report.steps.map((step, i) => {
+    const outcome = step.error ? `failed: ${step.error.message}` : `${step.sourceNumbers.length} source(s)`;
+    return `${i + 1}. (round ${step.round}) ${step.query} - ${outcome}`;
+  });
+
+  if (format === 'markdown') {
+    const text = report.report.replace(/\[(\d+)\]/g, (marker, n: string) => {
+      const uri = report.sources[Number(n) - 1]?.web?.uri;
+      return uri ? `[[${n}]](${uri})` : marker;
+    });
+    const sources = report.sources.map(
+      (source, i) => `${i + 1}. [${source.web?.title || 'Untitled'}](${source.web?.uri || ''})`
+    );
+    return [
+      `# ${report.question}`,
+      '',
+      text,
+      ...(sources.length > 0 ? ['', '## Sources', '', ...sources] : []),
+      '',
+      '## Searches',
+      '',
+      ...searches,
+    ].join('\n');
+  }
+
+  return [
+    `Deep research report for "${report.question}":`,
+    '',
+    report.report,
+    ...(report.sources.length > 0 ? ['', 'Sources:', ...formatSourceList(report.sources)] : []),
+    '',
+    'Searches:',
+    ...searches,
+  ].join('\n');
+}
@@ -0,0 +1,159 @@
+import { GroundingChunkItem, SearchResult } from './types.js';
+import { getConfig } from './config.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { isGroundingRedirect } from './format.js';
+import { remapSupports } from './grounding.js';
+import { pinnedFetch, resolvePublicAddress } from './fetch.js';
+
+export interface UrlResolverOptions {
+  /** Timeout for each HEAD request. */
+  timeoutMs?: number;
+  /** Maximum number of HEAD requests in flight. */
+  concurrency?: number;
+  /** Redirect hops followed per URL. */
+  maxRedirects?: number;
+  /** Resolved URLs kept in memory; least recently used entries are evicted. */
+  maxEntries?: number;
+  /** Follow redirects to loopback and private network addresses. */
+  allowPrivate?: boolean;
+}
+
+const TRACKING_PARAMS = /^(utm_[a-z]+|gclid|fbclid|srsltid)$/i;
+
+/**
+ * Replaces Gemini's grounding redirect URIs with the pages they point to by
+ * following the redirects with HEAD requests. URIs that cannot be resolved
+ * are left unchanged, so their title remains the domain hint.
+ */
+export class UrlResolver {
+  private readonly timeoutMs: number;
+  private readonly concurrency: number;
+  private readonly maxRedirects: number;
+  private readonly maxEntries: number;
+  private readonly allowPrivate: boolean;
+  private resolved = new Map<string, Promise<string | null>>();
+
+  constructor(options: UrlResolverOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 3000;
+    this.concurrency = options.concurrency ?? 5;
+    this.maxRedirects = options.maxRedirects ?? 5;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.allowPrivate = options.allowPrivate ?? false;
+  }
+
+  /** Creates the resolver described by the `resolve_*` settings, or `null` when resolution is disabled. */
+  static async fromConfig(): Promise<UrlResolver | null> {
+    const config = await getConfig();
+    if (!config.resolveUrls) {
+      return null;
+    }
+    return new UrlResolver({
+      timeoutMs: config.resolveTimeoutMs,
+      concurrency: config.resolveConcurrency,
+      allowPrivate: config.fetchAllowPrivate,
+    });
+  }
+
+  /** Returns the canonical destination of `uri`, or `null` when it cannot be resolved. */
+  resolve(uri: string): Promise<string | null> {
+    let resolving = this.resolved.get(uri);
+    if (resolving) {
+      // Mark as recently used
+      this.resolved.delete(uri);
+    } else {
+      resolving = this.follow(uri);
+      // Failures are not cached so a later search can retry them
+      resolving.then((destination) => {
+        if (destination === null) {
+          this.resolved.delete(uri);
+        }
+      });
+    }
+    this.resolved.set(uri, resolving);
+    if (this.resolved.size > this.maxEntries) {
+      this.resolved.delete(this.resolved.keys().next().value!);
+    }
+    return resolving;
+  }
+
+  /** Resolves every redirect URI in `result` and merges sources that point to the same page. */
+  async resolveSources(result: SearchResult): Promise<SearchResult> {
+    const redirects = [...new Set(result.sources.map((source) => source.web?.uri).filter(isGroundingRedirect))] as string[];
+    if (redirects.length === 0) {
+      return result;
+    }
+
+    const destinations = new Map<string, string | null>();
+    await mapWithConcurrency(redirects, this.concurrency, async (uri) => {
+      destinations.set(uri, await this.resolve(uri));
+    });
+
+    const sources = result.sources.map((source): GroundingChunkItem => {
+      const destination = source.web?.uri ? destinations.get(source.web.uri) : undefined;
+      return destination ? { ...source, web: { ...source.web, uri: destination } } : source;
+    });
+    return dedupeSources({ ...result, sources });
+  }
+
+  private async follow(uri: string): Promise<string | null> {
+    let current = uri;
+    try {
+      for (let hop = 0; hop < this.maxRedirects; hop++) {
+        // リダイレクト先ごとに確認し、検査したアドレスに接続して内部ネットワークへ HEAD リクエストを送らない
+        const url = new URL(current);
+        const address = this.allowPrivate ? undefined : await resolvePublicAddress(url);
+        const response = await pinnedFetch(url, { method: 'HEAD', signal: AbortSignal.timeout(this.timeoutMs) }, address);
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+          break;
+        }
+        current = new URL(location, current).toString();
+      }
+    } catch (error) {
+      // The destination may reject HEAD or time out; keep what was resolved so far
+      console.error(`Could not resolve ${current}: ${error instanceof Error ? error.message : error}`);
+    }
+    return current === uri ? null : canonicalUrl(current);
+  }
+}
+
+/** Drops the fragment and common tracking parameters. */
+export function canonicalUrl(uri: string): string {
+  try {
+    const url = new URL(uri);
+    url.hash = '';
+    for (const key of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) {
+        url.searchParams.delete(key);
+      }
+    }
+    return url.toString();
+  } catch {
+    return uri;
+  }
+}
+
+/** Merges sources with the same URI, keeping the first one's title, and renumbers the supports. */
+export function dedupeSources(result: SearchResult): SearchResult {
+  const firstIndex = new Map<string, number>();
+  const mapping = new Map<number, number>();
+  const sources: GroundingChunkItem[] = [];
+  result.sources.forEach((source, index) => {
+    const uri = source.web?.uri;
+    const existing = uri ? firstIndex.get(uri) : undefined;
+    if (existing !== undefined) {
+      mapping.set(index, existing);
+      return;
+    }
+    if (uri) {
+      firstIndex.set(uri, sources.length);
+    }
+    mapping.set(index, sources.length);
+    sources.push(source);
+  });
+
+  if (sources.length === result.sources.length) {
+    return result;
+  }
+  return { ...result, sources, supports: remapSupports(result.supports, mapping) };
+}
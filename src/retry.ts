@@ -0,0 +1,68 @@
+import { SearchError, isRetryable, toSearchError } from './errors.js';
+
+export interface RetryOptions {
+  /** Total attempts including the first one. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Upper bound for honoring a server-provided Retry-After delay. */
+  maxRetryAfterMs?: number;
+  /** Overrides which errors are retried. Defaults to `isRetryable`. */
+  shouldRetry?: (error: SearchError) => boolean;
+  /** Stops retrying once aborted; the backoff wait ends early. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'signal'>> = {
+  shouldRetry: isRetryable,
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 60_000,
+};
+
+/**
+ * Runs `fn`, retrying quota, 5xx and network failures with jittered
+ * exponential backoff. A server-provided Retry-After delay takes precedence.
+ * Errors are rethrown as SearchError subclasses; once `signal` is aborted
+ * the last error is rethrown without further attempts.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxAttempts, baseDelayMs, maxDelayMs, maxRetryAfterMs, shouldRetry, signal } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const searchError = toSearchError(error);
+      if (attempt >= maxAttempts || signal?.aborted || !shouldRetry(searchError)) {
+        throw searchError;
+      }
+
+      const retryAfterMs = (searchError as { retryAfterMs?: number }).retryAfterMs;
+      // Full jitter: a random delay up to the exponential cap
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = retryAfterMs !== undefined ? Math.min(retryAfterMs, maxRetryAfterMs) : backoff;
+
+      console.error(
+        `${searchError.message.split('\n')[0]} - retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxAttempts})`
+      );
+      await sleep(delay, signal);
+      if (signal?.aborted) {
+        throw searchError;
+      }
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,104 @@
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+/**
+ * The rules of a robots.txt file (RFC 9309) that apply to one user agent.
+ * The most specific (longest) matching rule wins, and `Allow` wins a tie.
+ */
+export class RobotsRules {
+  static readonly ALLOW_ALL = new RobotsRules([]);
+  static readonly DISALLOW_ALL = new RobotsRules([{ allow: false, pattern: '/' }]);
+
+  private constructor(private readonly rules: RobotsRule[]) {}
+
+  /**
+   * Parses `text` keeping the groups addressed to `userAgent`'s product token
+   * (e.g. `my-bot` for `my-bot/1.0 (+https://...)`), or the `*` groups when
+   * no group names it.
+   */
+  static parse(text: string, userAgent: string): RobotsRules {
+    const token = userAgent.split(/[\s/]/)[0].toLowerCase();
+    const named: RobotsRule[] = [];
+    const wildcard: RobotsRule[] = [];
+    let agents: string[] = [];
+    let inRules = false;
+    let matchedNamed = false;
+
+    for (const rawLine of text.split(/\r?\n|\r/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // A user-agent line after rules starts a new group
+        if (inRules) {
+          agents = [];
+          inRules = false;
+        }
+        agents.push(value.toLowerCase());
+        // A group naming the agent takes precedence over `*` even without rules
+        matchedNamed ||= value.toLowerCase() === token;
+        continue;
+      }
+      if (field !== 'allow' && field !== 'disallow') {
+        continue;
+      }
+      inRules = true;
+      if (value === '') {
+        continue; // An empty Disallow allows everything
+      }
+      const rule = { allow: field === 'allow', pattern: value };
+      if (agents.includes(token)) {
+        named.push(rule);
+      } else if (agents.includes('*')) {
+        wildcard.push(rule);
+      }
+    }
+    return new RobotsRules(matchedNamed ? named : wildcard);
+  }
+
+  /** Whether the path (with query string) of `url` may be fetched. */
+  isAllowed(url: string | URL): boolean {
+    const { pathname, search } = new URL(url);
+    const path = pathname + search;
+    let best: RobotsRule | undefined;
+    for (const rule of this.rules) {
+      if (!matchesPattern(path, rule.pattern)) {
+        continue;
+      }
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+    return best?.allow ?? true;
+  }
+}
+
+/** Matches a robots.txt path pattern, where `*` is any sequence and a trailing `$` anchors the end. */
+function matchesPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => encodePath(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/** Percent-encodes a pattern the way URL paths are, so `/café` matches `/caf%C3%A9`. */
+function encodePath(part: string): string {
+  try {
+    return encodeURI(decodeURI(part));
+  } catch {
+    return part;
+  }
+}
@@ -0,0 +1,337 @@
+import {
+  SearchBackend,
+  SearchOptions,
+  createBackend,
+  resolveBackendChain,
+  resolveBackendName,
+} from './backend.js';
+import './backends/index.js';
+import { SearchCache, createCacheKey } from './cache.js';
+import { UrlResolver } from './resolver.js';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker.js';
+import {
+  InvalidArgumentError,
+  RequestCancelledError,
+  SearchError,
+  UpstreamError,
+  abortedError,
+  isRetryable,
+  shouldFallback,
+  toSearchError,
+} from './errors.js';
+import { getConfig } from './config.js';
+import { GenerationSettings, loadGenerationSettings, resolveGenerationOptions } from './generation.js';
+import { withRetry } from './retry.js';
+import { SearchResult } from './types.js';
+import {
+  SearchFilters,
+  applyQueryOperators,
+  filterInstruction,
+  filterSources,
+  hasFilters,
+  normalizeFilters,
+} from './filters.js';
+
+export * from './types.js';
+export type { SearchBackend, SearchBackendFactory, SearchOptions } from './backend.js';
+export { registerBackend, listBackends } from './backend.js';
+export { formatSearchResult } from './citations.js';
+export { SearchCache } from './cache.js';
+export { UrlResolver } from './resolver.js';
+export { SessionStore } from './sessions.js';
+export * from './errors.js';
+export type { GenerationOptions, GenerationSettings } from './generation.js';
+export { loadConfig, getConfig } from './config.js';
+export { searchBatch } from './batch.js';
+export type { BatchSearchItem, BatchSearchOptions } from './batch.js';
+export { deepResearch, renderResearchReport, toStructuredResearch } from './research.js';
+export type { ResearchOptions, ResearchReport, ResearchStep, StructuredResearchReport } from './research.js';
+export { TIME_RANGES } from './filters.js';
+export type { SearchFilters, TimeRange } from './filters.js';
+export type { Config, ConfigSource, LoadConfigOptions, LoadedConfig } from './config.js';
+
+export interface SearchServiceOptions {
+  /** Backend name to use instead of SEARCH_BACKEND / the config file. */
+  backend?: string;
+  /** Backends to try after the primary one on auth or quota failures. Defaults to SEARCH_FALLBACK. */
+  fallback?: string[];
+  /** Result cache to use; `null` disables caching. Defaults to `SearchCache.fromConfig()`. */
+  cache?: SearchCache | null;
+  /** Circuit breaker settings applied to each backend of a fallback chain. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Generation defaults and model allowlist. Defaults to `loadGenerationSettings()`. */
+  generation?: GenerationSettings;
+  /** Resolver for grounding redirect URIs; `null` disables it. Defaults to `UrlResolver.fromConfig()`. */
+  resolver?: UrlResolver | null;
+  /** Default time limit of a search in milliseconds; 0 disables it. Defaults to `search_timeout_ms`. */
+  timeoutMs?: number;
+}
+
+export interface SearchCallOptions extends SearchOptions, SearchFilters {
+  /** Skip the cache lookup. The fresh result is still written to the cache. */
+  noCache?: boolean;
+  /** Time limit of this search in milliseconds, overriding the default. */
+  timeoutMs?: number;
+}
+
+/**
+ * Shared search core used by the MCP servers and the gsearch CLI.
+ * Resolves and authenticates backends lazily on first use. When a fallback
+ * chain is configured, auth and quota failures move on to the next backend
+ * and a circuit breaker keeps traffic away from a failing backend for a while.
+ */
+export class SearchService {
+  private chain: string[] | null = null;
+  private backends = new Map<string, Promise<SearchBackend>>();
+  private breakers = new Map<string, CircuitBreaker>();
+  private lastBackend: string | null = null;
+  private cache: Promise<SearchCache | null> | null = null;
+  private resolver: Promise<UrlResolver | null> | null = null;
+  private generationSettings: Promise<GenerationSettings> | null = null;
+
+  constructor(private options: SearchServiceOptions = {}) {}
+
+  /** Name of the backend that answered the most recent search. */
+  get backend(): string | null {
+    return this.lastBackend;
+  }
+
+  async getBackendChain(): Promise<string[]> {
+    if (!this.chain) {
+      if (this.options.fallback) {
+        const primary = this.options.backend ?? (await resolveBackendName());
+        this.chain = [primary, ...this.options.fallback.filter((name) => name !== primary)];
+      } else {
+        this.chain = await resolveBackendChain(this.options.backend);
+      }
+    }
+    return this.chain;
+  }
+
+  /** Initializes the primary backend. */
+  async initialize(): Promise<SearchBackend> {
+    const [primary] = await this.getBackendChain();
+    return this.initializeBackend(primary);
+  }
+
+  private initializeBackend(name: string): Promise<SearchBackend> {
+    let initializing = this.backends.get(name);
+    if (!initializing) {
+      initializing = (async () => {
+        const backend = createBackend(name);
+        try {
+          await backend.initialize();
+        } catch (error) {
+          throw toSearchError(error);
+        }
+        return backend;
+      })();
+      // Allow a later attempt to retry a failed initialization
+      initializing.catch(() => this.backends.delete(name));
+      this.backends.set(name, initializing);
+    }
+    return initializing;
+  }
+
+  private getBreaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options.circuitBreaker);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  private getGenerationSettings(): Promise<GenerationSettings> {
+    if (!this.generationSettings) {
+      this.generationSettings = this.options.generation
+        ? Promise.resolve(this.options.generation)
+        : loadGenerationSettings();
+      this.generationSettings.catch(() => {
+        this.generationSettings = null;
+      });
+    }
+    return this.generationSettings;
+  }
+
+  private getCache(): Promise<SearchCache | null> {
+    if (!this.cache) {
+      this.cache = this.options.cache !== undefined
+        ? Promise.resolve(this.options.cache)
+        : SearchCache.fromConfig();
+      this.cache.catch(() => {
+        this.cache = null;
+      });
+    }
+    return this.cache;
+  }
+
+  private getResolver(): Promise<UrlResolver | null> {
+    if (!this.resolver) {
+      this.resolver = this.options.resolver !== undefined
+        ? Promise.resolve(this.options.resolver)
+        : UrlResolver.fromConfig();
+      this.resolver.catch(() => {
+        this.resolver = null;
+      });
+    }
+    return this.resolver;
+  }
+
+  /**
+   * Checks the per-call options (timeout, model allowlist, generation
+   * settings and filters) the way `search` does, without searching, so
+   * callers can reject a call before charging for it. Throws
+   * InvalidArgumentError.
+   */
+  async validateOptions({ timeoutMs, sites, excludeSites, timeRange, language, region, ...overrides }: SearchCallOptions): Promise<void> {
+    checkTimeoutMs(timeoutMs);
+    resolveGenerationOptions(await this.getGenerationSettings(), overrides);
+    normalizeFilters({ sites, excludeSites, timeRange, language, region });
+  }
+
+  /**
+   * Runs a search. Filters are applied as query operators and instructions
+   * to the model, and sources that break the site rules are removed from the
+   * result afterwards. When `signal` is aborted or the time limit passes, the
+   * upstream request is aborted and a RequestCancelledError or
+   * RequestTimeoutError is thrown.
+   */
+  async search(
+    query: string,
+    { timeoutMs, signal, ...options }: SearchCallOptions = {},
+  ): Promise<SearchResult> {
+    checkTimeoutMs(timeoutMs);
+    if (signal?.aborted) {
+      throw new RequestCancelledError('Search was cancelled.', { cause: signal.reason });
+    }
+
+    const timeout = timeoutMs ?? this.options.timeoutMs ?? (await getConfig()).searchTimeoutMs;
+    const timeoutSignal = timeout > 0 ? AbortSignal.timeout(timeout) : undefined;
+    const combined = signal && timeoutSignal ? AbortSignal.any([signal, timeoutSignal]) : signal ?? timeoutSignal;
+    try {
+      return await raceAbort(this.searchFiltered(query, { ...options, signal: combined }), combined);
+    } catch (error) {
+      throw abortedError(error, { signal, timeoutSignal, timeoutMs: timeout });
+    }
+  }
+
+  private async searchFiltered(
+    query: string,
+    { noCache, sites, excludeSites, timeRange, language, region, ...overrides }: SearchCallOptions,
+  ): Promise<SearchResult> {
+    const callOptions: SearchCallOptions = {
+      ...resolveGenerationOptions(await this.getGenerationSettings(), overrides),
+      noCache,
+    };
+
+    const filters = normalizeFilters({ sites, excludeSites, timeRange, language, region });
+    if (!hasFilters(filters)) {
+      return this.searchChain(query, callOptions);
+    }
+    const instruction = filterInstruction(filters);
+    callOptions.systemInstruction = [callOptions.systemInstruction, instruction].filter(Boolean).join('\n\n');
+    const result = await this.searchChain(applyQueryOperators(query, filters), callOptions);
+    return { ...filterSources(result, filters), query };
+  }
+
+  private async searchChain(query: string, callOptions: SearchCallOptions): Promise<SearchResult> {
+    const chain = await this.getBackendChain();
+    if (chain.length === 1) {
+      return this.searchWith(chain[0], query, callOptions, false);
+    }
+
+    let lastError: SearchError | null = null;
+    for (let i = 0; i < chain.length; i++) {
+      const name = chain[i];
+      const breaker = this.getBreaker(name);
+      if (!breaker.canRequest()) {
+        console.error(`Skipping backend "${name}": circuit open after repeated failures`);
+        continue;
+      }
+
+      const hasNext = i < chain.length - 1;
+      try {
+        const result = await this.searchWith(name, query, callOptions, hasNext);
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const searchError = toSearchError(error);
+        // 中断された検索は次のバックエンドで続けない
+        if (!shouldFallback(searchError) || callOptions.signal?.aborted) {
+          breaker.recordIgnored();
+          throw searchError;
+        }
+        breaker.recordFailure();
+        lastError = searchError;
+        if (hasNext) {
+          console.error(`Backend "${name}" failed (${searchError.name}), falling back to the next backend`);
+        }
+      }
+    }
+
+    throw lastError ?? new UpstreamError(
+      `All search backends (${chain.join(', ')}) are temporarily disabled after repeated failures. Try again later.`
+    );
+  }
+
+  private async searchWith(
+    name: string,
+    query: string,
+    { noCache, ...options }: SearchCallOptions,
+    hasFallback: boolean,
+  ): Promise<SearchResult> {
+    const backend = await this.initializeBackend(name);
+    // Quota errors go straight to the next backend instead of being retried
+    const retryOptions = {
+      signal: options.signal,
+      ...(hasFallback && { shouldRetry: (error: SearchError) => isRetryable(error) && !shouldFallback(error) }),
+    };
+
+    // Follow-ups depend on the session history, so they are never cached
+    const cache = options.history?.length ? null : await this.getCache();
+    const key = createCacheKey(query, backend.name, backend.model, { ...options, onText: undefined, signal: undefined });
+    const cached = cache && !noCache ? await cache.get(key) : null;
+
+    let result: SearchResult;
+    if (cached) {
+      result = { ...cached, query };
+    } else {
+      result = await withRetry(() => backend.search(query, options), retryOptions);
+    }
+
+    // キャッシュには解決済みの URL を保存する
+    const resolver = await this.getResolver();
+    if (resolver) {
+      result = await resolver.resolveSources(result);
+    }
+    if (cache && !cached && result.responseText.trim()) {
+      await cache.set(key, result);
+    }
+
+    this.lastBackend = result.backend;
+    return result;
+  }
+}
+
+/**
+ * Settles like `promise`, but rejects as soon as `signal` aborts, so a step
+ * that does not take a signal (login, cache, URL resolution) cannot hold up
+ * the caller.
+ */
+function checkTimeoutMs(timeoutMs: number | undefined): void {
+  if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs < 1)) {
+    throw new InvalidArgumentError('timeoutMs must be a positive integer (milliseconds).');
+  }
+}
+
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
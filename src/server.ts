@@ -0,0 +1,912 @@
+import { parseArgs } from 'node:util';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  Tool,
+  CallToolResult,
+  ErrorCode,
+  McpError,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  SearchCallOptions,
+  SearchService,
+  SearchServiceOptions,
+  TIME_RANGES,
+  TimeRange,
+  deepResearch,
+  describeError,
+  renderResearchReport,
+  searchBatch,
+  toStructuredResearch,
+} from './search.js';
+import { renderBatch, toStructuredBatch } from './batch.js';
+import { OUTPUT_FORMATS, OutputFormat, isOutputFormat, renderSearchResult, toStructuredResult } from './format.js';
+import { LOW_CONFIDENCE_ACTIONS, LowConfidenceAction } from './grounding.js';
+import { getConfig, loadConfig } from './config.js';
+import { McpHttpServer } from './http.js';
+import { ClientAccessError, ClientIdentity, ClientRegistry } from './clients.js';
+import { RecentSearches, SourceFetcher, renderFetchedPage } from './fetch.js';
+import { SessionStore, validateSessionId } from './sessions.js';
+import { reserveStdinForProtocol } from './oauth.js';
+import { InvalidArgumentError } from './errors.js';
+
+/** Options shared by `google_web_search` and `google_web_search_batch`. */
+interface SearchToolOptions {
+  format?: OutputFormat;
+  minConfidence?: number;
+  lowConfidence?: LowConfidenceAction;
+  showGrounding?: boolean;
+  noCache?: boolean;
+  timeoutMs?: number;
+  model?: string;
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  systemInstruction?: string;
+  sites?: string[];
+  excludeSites?: string[];
+  timeRange?: TimeRange;
+  language?: string;
+  region?: string;
+}
+
+interface WebSearchArgs extends SearchToolOptions {
+  query: string;
+  sessionId?: string;
+}
+
+interface ResetSessionArgs {
+  sessionId: string;
+}
+
+interface WebSearchBatchArgs extends SearchToolOptions {
+  queries: string[];
+}
+
+interface DeepResearchArgs extends SearchToolOptions {
+  question: string;
+  maxSteps?: number;
+  maxQueries?: number;
+}
+
+interface FetchSourceArgs {
+  url?: string;
+  index?: number;
+  query?: string;
+  offset?: number;
+  maxLength?: number;
+}
+
+/** Search and output options shared by the search tools. */
+const SEARCH_OPTION_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: [...OUTPUT_FORMATS],
+    description: 'Output format. "text" (default) returns the answer with [n] citations and a Sources list, "markdown" links the citations, "json" returns the answer, sources and grounding supports as structured content.',
+  },
+  minConfidence: {
+    type: 'number',
+    minimum: 0,
+    maximum: 1,
+    description: 'Claims whose highest grounding confidence is below this threshold (0-1) are treated as weakly grounded.',
+  },
+  lowConfidence: {
+    type: 'string',
+    enum: [...LOW_CONFIDENCE_ACTIONS],
+    description: 'What to do with weakly grounded claims: "mark" (default) annotates them with their confidence, "drop" removes them from the answer.',
+  },
+  showGrounding: {
+    type: 'boolean',
+    description: 'List the claims (with confidence) that each source backed under the source list.',
+  },
+  noCache: {
+    type: 'boolean',
+    description: 'Bypass the query cache and always run a fresh search.',
+  },
+  timeoutMs: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Time limit of each search in milliseconds. Defaults to the server\'s search_timeout_ms.',
+  },
+  model: {
+    type: 'string',
+    description: 'Gemini model to use. Must be on the server\'s model allowlist.',
+  },
+  temperature: {
+    type: 'number',
+    minimum: 0,
+    maximum: 2,
+    description: 'Sampling temperature.',
+  },
+  topK: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Top-k sampling parameter.',
+  },
+  topP: {
+    type: 'number',
+    minimum: 0,
+    maximum: 1,
+    description: 'Top-p (nucleus) sampling parameter.',
+  },
+  maxOutputTokens: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Maximum number of tokens in the answer.',
+  },
+  systemInstruction: {
+    type: 'string',
+    description: 'System instruction that steers how the answer is written.',
+  },
+  sites: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only use sources from these domains (subdomains included), e.g. ["docs.python.org"].',
+  },
+  excludeSites: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Never use sources from these domains (subdomains included).',
+  },
+  timeRange: {
+    type: 'string',
+    enum: [...TIME_RANGES],
+    description: 'Only use sources published within the last day, week, month or year.',
+  },
+  language: {
+    type: 'string',
+    description: 'Language code for the answer and preferred sources, e.g. "ja".',
+  },
+  region: {
+    type: 'string',
+    description: 'Two-letter country code of the region to focus on, e.g. "JP".',
+  },
+};
+
+/** Deep research cites from merged sources, so per-source grounding lists do not apply. */
+const { showGrounding: _showGrounding, ...DEEP_RESEARCH_OPTION_PROPERTIES } = SEARCH_OPTION_PROPERTIES;
+
+const BACKEND_LABELS: Record<string, string> = {
+  codeassist: 'Code Assist API (OAuth)',
+  apikey: 'Gemini API (API Key)',
+  genai: 'Gemini API (@google/genai)',
+  vertex: 'Vertex AI (@google/genai)',
+};
+
+export class GoogleWebSearchMCP {
+  private searchService: SearchService;
+  private servers = new Set<Server>();
+  private httpServer: McpHttpServer | null = null;
+  private clients = new ClientRegistry();
+  private fetcher: Promise<SourceFetcher> | null = null;
+  private sessions = new SessionStore();
+
+  constructor(options: SearchServiceOptions = {}) {
+    this.searchService = new SearchService(options);
+    this.setupErrorHandling();
+  }
+
+  /**
+   * Creates an MCP server for `client`; the HTTP transport creates one per
+   * client session. `null` means the caller could not be authenticated.
+   */
+  private createServer(client: ClientIdentity | null): Server {
+    const server = new Server(
+      {
+        name: 'gemini-google-web-search-mcp',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+        },
+      }
+    );
+    this.setupToolHandlers(server, client);
+    server.onerror = (error) => {
+      console.error('[MCP Server Error]', error);
+    };
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+    this.servers.add(server);
+    return server;
+  }
+
+  private setupToolHandlers(server: Server, client: ClientIdentity | null) {
+    // fetch_source の index はこのセッションの直近の検索結果を指す
+    const recent = new RecentSearches();
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: [
+          {
+            name: 'google_web_search',
+            description: 'Performs a web search using Google Search (via the Gemini API or Code Assist API) and returns the results. This tool is useful for finding information on the internet based on a query.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'The search query to find information on the web.',
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'Continue a conversation: searches with the same sessionId see the earlier queries and answers, so follow-ups like "and what about the 2024 version?" keep their context. Use any new id to start a session.',
+                },
+                ...SEARCH_OPTION_PROPERTIES,
+              },
+              required: ['query'],
+            },
+          } as Tool,
+          {
+            name: 'reset_search_session',
+            description: 'Forgets the earlier queries and answers of a google_web_search session.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'The session to reset.',
+                },
+              },
+              required: ['sessionId'],
+            },
+          } as Tool,
+          {
+            name: 'google_web_search_batch',
+            description: 'Runs several related web searches in one call, in parallel, and returns a result or an error for each query. Use this instead of calling google_web_search repeatedly.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                queries: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  minItems: 1,
+                  description: 'The search queries to run.',
+                },
+                ...SEARCH_OPTION_PROPERTIES,
+              },
+              required: ['queries'],
+            },
+          } as Tool,
+          {
+            name: 'google_deep_research',
+            description: 'Researches a complex question in depth: plans sub-queries, runs them as web searches over several rounds, and writes a report with citations into one merged source list. Slower and uses more quota than google_web_search.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                question: {
+                  type: 'string',
+                  description: 'The question to research.',
+                },
+                maxSteps: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of planning and search rounds. Capped by the server\'s research_max_steps.',
+                },
+                maxQueries: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of searches across all rounds. Capped by the server\'s research_max_queries.',
+                },
+                ...DEEP_RESEARCH_OPTION_PROPERTIES,
+              },
+              required: ['question'],
+            },
+          } as Tool,
+          {
+            name: 'fetch_source',
+            description: 'Fetches a web page and returns its main content as Markdown, with the original URL. Pass a url, or the [n] index of a source cited by a recent search to read that source in full.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'The http or https URL of the page to fetch.',
+                },
+                index: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Number of a source cited as [n] by the latest search in this session. Used when url is not given.',
+                },
+                query: {
+                  type: 'string',
+                  description: 'With index, pick the source from the latest search for this query instead of the latest search.',
+                },
+                offset: {
+                  type: 'integer',
+                  minimum: 0,
+                  description: 'Character offset to start reading from, to continue a long page.',
+                },
+                maxLength: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of characters to return.',
+                },
+              },
+            },
+          } as Tool,
+        ],
+      };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+
+      if (name === 'google_web_search') {
+        return await this.handleWebSearch(
+          args as unknown as WebSearchArgs,
+          this.requireClient(client),
+          recent,
+          extra.signal,
+          progressReporter(request, extra)
+        );
+      }
+      if (name === 'reset_search_session') {
+        return this.handleResetSession(args as unknown as ResetSessionArgs, this.requireClient(client));
+      }
+      if (name === 'google_web_search_batch') {
+        return await this.handleWebSearchBatch(
+          args as unknown as WebSearchBatchArgs,
+          this.requireClient(client),
+          recent,
+          extra.signal
+        );
+      }
+      if (name === 'google_deep_research') {
+        return await this.handleDeepResearch(
+          args as unknown as DeepResearchArgs,
+          this.requireClient(client),
+          recent,
+          extra.signal
+        );
+      }
+      if (name === 'fetch_source') {
+        return await this.handleFetchSource(
+          (args ?? {}) as FetchSourceArgs,
+          this.requireClient(client),
+          recent,
+          extra.signal
+        );
+      }
+
+      throw new Error(`Tool not found: ${name}`);
+    });
+  }
+
+  private requireClient(client: ClientIdentity | null): ClientIdentity {
+    if (!client) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Unauthorized: this server requires a client token. Set MCP_CLIENT_TOKEN to a token listed in "clients".',
+        { reason: 'unauthorized' }
+      );
+    }
+    return client;
+  }
+
+  /**
+   * Returns why the search service would reject the model, generation or
+   * filter options, so the call fails before anything is charged.
+   */
+  private async validateSearchOptions(args: SearchToolOptions): Promise<string | null> {
+    try {
+      await this.searchService.validateOptions(toSearchCallOptions(args));
+      return null;
+    } catch (error) {
+      if (error instanceof InvalidArgumentError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks the caller's rate limit and daily budget, charging one search.
+   * Called once the arguments are valid, so a rejected call costs nothing.
+   */
+  private charge(client: ClientIdentity): void {
+    try {
+      this.clients.consume(client);
+    } catch (error) {
+      if (error instanceof ClientAccessError) {
+        throw new McpError(ErrorCode.InvalidRequest, error.message, {
+          reason: error.reason,
+          retryAfterMs: error.retryAfterMs,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async handleWebSearch(
+    args: WebSearchArgs,
+    client: ClientIdentity,
+    recent: RecentSearches,
+    signal: AbortSignal,
+    onText?: (text: string) => void
+  ): Promise<CallToolResult> {
+    try {
+      if (!args.query || args.query.trim() === '') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Error: The query parameter cannot be empty.',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const validationError = validateWebSearchArgs(args) ?? (await this.validateSearchOptions(args));
+      if (validationError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${validationError}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      const format = args.format ?? 'text';
+      const groundingOptions = toGroundingOptions(args);
+
+      const sessionId = args.sessionId !== undefined ? validateSessionId(args.sessionId) : undefined;
+      const history = sessionId ? this.sessions.history(client, sessionId) : [];
+      this.charge(client);
+
+      const result = await this.searchService.search(args.query, {
+        ...toSearchCallOptions(args),
+        history,
+        onText,
+        signal,
+      });
+      console.error(`Search for client "${client.name}" completed using ${BACKEND_LABELS[result.backend] ?? result.backend}`);
+      recent.remember(result);
+      if (sessionId && result.responseText.trim()) {
+        this.sessions.append(client, sessionId, {
+          query: args.query,
+          answer: result.responseText,
+          sources: result.sources,
+        });
+      }
+
+      if (format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: renderSearchResult(result, format, groundingOptions),
+            },
+          ],
+          structuredContent: toStructuredResult(result, groundingOptions),
+        };
+      }
+
+      if (!result.responseText || !result.responseText.trim()) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `No search results or information found for query: "${args.query}"`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: renderSearchResult(result, format, groundingOptions),
+          },
+        ],
+      };
+    } catch (error) {
+      // レート制限・予算超過はツールの結果ではなくリクエストのエラーとして返す
+      if (error instanceof McpError) {
+        throw error;
+      }
+      const errorMessage = describeError(error);
+      console.error('[Web Search Error]', error);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error during web search for query "${args.query}": ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private handleResetSession(args: ResetSessionArgs, client: ClientIdentity): CallToolResult {
+    try {
+      const sessionId = validateSessionId(args.sessionId);
+      const turns = this.sessions.reset(client, sessionId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: turns > 0
+              ? `Session "${sessionId}" was reset (${turns} earlier turn(s) forgotten).`
+              : `Session "${sessionId}" had no active history.`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${describeError(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleWebSearchBatch(
+    args: WebSearchBatchArgs,
+    client: ClientIdentity,
+    recent: RecentSearches,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    const { batchConcurrency, batchMaxQueries } = await getConfig();
+    const validationError =
+      validateBatchQueries(args.queries, batchMaxQueries) ??
+      validateWebSearchArgs(args) ??
+      (await this.validateSearchOptions(args));
+    if (validationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${validationError}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    const format = args.format ?? 'text';
+    const groundingOptions = toGroundingOptions(args);
+
+    const items = await searchBatch(this.searchService, args.queries, {
+      ...toSearchCallOptions(args),
+      signal,
+      concurrency: batchConcurrency,
+      // クエリごとにクライアントのレート制限・予算を消費する
+      beforeSearch: () => this.clients.consume(client),
+    });
+    const failed = items.filter((item) => item.error).length;
+    // 逆順に記録して、index だけの指定ではバッチ先頭のクエリの出典を指すようにする
+    for (const item of [...items].reverse()) {
+      if (item.result) {
+        recent.remember(item.result);
+      }
+    }
+    console.error(`Batch of ${items.length} searches for client "${client.name}" completed (${failed} failed)`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderBatch(items, format, groundingOptions),
+        },
+      ],
+      ...(format === 'json' ? { structuredContent: { results: toStructuredBatch(items, groundingOptions) } } : {}),
+      ...(failed === items.length ? { isError: true } : {}),
+    };
+  }
+
+  private async handleDeepResearch(
+    args: DeepResearchArgs,
+    client: ClientIdentity,
+    recent: RecentSearches,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    const { researchMaxSteps, researchMaxQueries, batchConcurrency } = await getConfig();
+    const validationError =
+      (typeof args.question !== 'string' || args.question.trim() === '' ? 'The question parameter cannot be empty.' : null) ??
+      validatePositiveInteger('maxSteps', args.maxSteps) ??
+      validatePositiveInteger('maxQueries', args.maxQueries) ??
+      validateWebSearchArgs(args) ??
+      (await this.validateSearchOptions(args));
+    if (validationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${validationError}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    const format = args.format ?? 'text';
+    this.charge(client);
+
+    try {
+      const report = await deepResearch(this.searchService, args.question, {
+        ...toSearchCallOptions(args),
+        signal,
+        minConfidence: args.minConfidence,
+        lowConfidence: args.lowConfidence,
+        maxSteps: Math.min(args.maxSteps ?? researchMaxSteps, researchMaxSteps),
+        maxQueries: Math.min(args.maxQueries ?? researchMaxQueries, researchMaxQueries),
+        concurrency: batchConcurrency,
+        // 各サブクエリもクライアントのレート制限・予算を消費する
+        beforeSearch: () => this.clients.consume(client),
+      });
+      console.error(`Deep research for client "${client.name}" completed with ${report.steps.length} searches`);
+      // fetch_source の index でレポートの出典も読めるようにする
+      recent.remember({
+        query: report.question,
+        responseText: report.report,
+        sources: report.sources,
+        supports: [],
+        backend: report.backend,
+        model: report.model,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: renderResearchReport(report, format),
+          },
+        ],
+        ...(format === 'json' ? { structuredContent: toStructuredResearch(report) } : {}),
+      };
+    } catch (error) {
+      console.error('[Deep Research Error]', error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error during deep research for "${args.question}": ${describeError(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleFetchSource(
+    args: FetchSourceArgs,
+    client: ClientIdentity,
+    recent: RecentSearches,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    const target = args.url ?? (args.index !== undefined ? `source [${args.index}]` : '(none)');
+    try {
+      let url = args.url;
+      if (url === undefined) {
+        if (args.index === undefined) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Error: Either url or index is required.',
+              },
+            ],
+            isError: true,
+          };
+        }
+        url = recent.source(args.index, args.query).web.uri;
+      }
+
+      this.fetcher ??= SourceFetcher.fromConfig();
+      const page = await (await this.fetcher).fetch(url, {
+        offset: args.offset,
+        maxLength: args.maxLength,
+        signal,
+      });
+      console.error(`Fetched ${page.finalUrl} for client "${client.name}" (${page.totalLength} characters)`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: renderFetchedPage(page),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('[Fetch Source Error]', error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error fetching ${target}: ${describeError(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private setupErrorHandling() {
+    process.on('SIGINT', async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    process.on('SIGTERM', async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    process.on('uncaughtException', (error) => {
+      console.error('[Uncaught Exception]', error);
+      process.exit(1);
+    });
+
+    process.on('unhandledRejection', (reason, promise) => {
+      console.error('[Unhandled Rejection]', reason);
+      process.exit(1);
+    });
+  }
+
+  /**
+   * Starts the server on the configured transport. `argv` may contain
+   * `--transport stdio|http`, `--port` and `--host`, overriding the config.
+   */
+  async run(argv: string[] = [], label = 'stdio') {
+    const { values } = parseArgs({
+      args: argv,
+      options: {
+        transport: { type: 'string' },
+        port: { type: 'string' },
+        host: { type: 'string' },
+      },
+    });
+    // 設定の検証（不正な値はここで起動エラーにする）
+    const { config, warnings } = await loadConfig({
+      overrides: { transport: values.transport, httpPort: values.port, httpHost: values.host },
+    });
+    for (const warning of warnings) {
+      console.error(`Warning: ${warning}`);
+    }
+    this.clients = new ClientRegistry(config.clients, {
+      rateLimit: config.clientRateLimit,
+      dailyBudget: config.clientDailyBudget,
+    });
+    this.sessions = await SessionStore.fromConfig();
+
+    if (config.transport === 'http') {
+      this.httpServer = new McpHttpServer({
+        port: config.httpPort,
+        host: config.httpHost,
+        createServer: (client) => this.createServer(client),
+        authenticate: (token) => this.clients.authenticate(token),
+        health: () => ({ backend: this.searchService.backend }),
+        allowedHosts: config.httpAllowedHosts,
+        maxSessions: config.httpMaxSessions,
+        sessionIdleMs: config.httpSessionTtl * 1000,
+      });
+      await this.httpServer.listen();
+      console.error(`Gemini Google Web Search MCP server running on ${this.httpServer.url}/mcp`);
+      return;
+    }
+
+    // stdio では起動時に渡されたトークンでクライアントを識別する
+    let client: ClientIdentity | null = null;
+    try {
+      client = this.clients.authenticate(config.clientToken);
+    } catch (error) {
+      console.error(`Warning: ${error instanceof Error ? error.message : error} Tool calls will be rejected.`);
+    }
+
+    reserveStdinForProtocol();
+    const transport = new StdioServerTransport();
+    await this.createServer(client).connect(transport);
+    console.error(`Gemini Google Web Search MCP server running on ${label}`);
+  }
+
+  /** Closes the HTTP listener and every connected MCP session. */
+  async close(): Promise<void> {
+    if (this.httpServer) {
+      await this.httpServer.close();
+      this.httpServer = null;
+    }
+    await Promise.allSettled([...this.servers].map((server) => server.close()));
+  }
+}
+
+function validateBatchQueries(queries: unknown, maxQueries: number): string | null {
+  if (!Array.isArray(queries) || queries.length === 0) {
+    return 'queries must be a non-empty array of strings.';
+  }
+  if (queries.length > maxQueries) {
+    return `A batch may contain at most ${maxQueries} queries.`;
+  }
+  if (!queries.every((query) => typeof query === 'string' && query.trim() !== '')) {
+    return 'Every query must be a non-empty string.';
+  }
+  return null;
+}
+
+/**
+ * Forwards streamed answer text as progress notifications when the caller
+ * sent a progress token. `progress` counts the characters received so far.
+ */
+function progressReporter(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ((text: string) => void) | undefined {
+  const progressToken = request.params._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  let progress = 0;
+  return (text) => {
+    progress += text.length;
+    extra
+      .sendNotification({ method: 'notifications/progress', params: { progressToken, progress, message: text } })
+      .catch((error) => console.error('Failed to send progress notification:', error));
+  };
+}
+
+function validatePositiveInteger(name: string, value: unknown): string | null {
+  if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+    return `${name} must be a positive integer.`;
+  }
+  return null;
+}
+
+function toGroundingOptions(args: SearchToolOptions) {
+  return {
+    minConfidence: args.minConfidence,
+    lowConfidence: args.lowConfidence,
+    showGrounding: args.showGrounding,
+  };
+}
+
+function toSearchCallOptions(args: SearchToolOptions): SearchCallOptions {
+  return {
+    noCache: args.noCache,
+    timeoutMs: args.timeoutMs,
+    model: args.model,
+    temperature: args.temperature,
+    topK: args.topK,
+    topP: args.topP,
+    maxOutputTokens: args.maxOutputTokens,
+    systemInstruction: args.systemInstruction,
+    sites: args.sites,
+    excludeSites: args.excludeSites,
+    timeRange: args.timeRange,
+    language: args.language,
+    region: args.region,
+  };
+}
+
+function validateWebSearchArgs(args: SearchToolOptions): string | null {
+  if (args.format !== undefined && !isOutputFormat(args.format)) {
+    return `Invalid format "${args.format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}.`;
+  }
+  if (
+    args.minConfidence !== undefined &&
+    (typeof args.minConfidence !== 'number' || args.minConfidence < 0 || args.minConfidence > 1)
+  ) {
+    return 'minConfidence must be a number between 0 and 1.';
+  }
+  if (args.lowConfidence !== undefined && !LOW_CONFIDENCE_ACTIONS.includes(args.lowConfidence)) {
+    return `Invalid lowConfidence "${args.lowConfidence}". Expected one of: ${LOW_CONFIDENCE_ACTIONS.join(', ')}.`;
+  }
+  return validatePositiveInteger('timeoutMs', args.timeoutMs);
+}
@@ -0,0 +1,97 @@
+import { ConversationTurn } from './types.js';
+import { getConfig } from './config.js';
+import { InvalidArgumentError } from './errors.js';
+import { ClientIdentity } from './clients.js';
+
+export interface SessionStoreOptions {
+  /** Sessions kept in memory; least recently used sessions are evicted. */
+  maxSessions?: number;
+  /** Turns kept per session; older turns are dropped. */
+  maxTurns?: number;
+  /** Idle time after which a session expires, in milliseconds. */
+  ttlMs?: number;
+}
+
+interface Session {
+  turns: ConversationTurn[];
+  lastUsed: number;
+}
+
+const SESSION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Prior turns of `google_web_search` sessions, so follow-up questions are
+ * answered with the earlier queries and answers as context. Sessions are
+ * scoped to the client that created them.
+ */
+export class SessionStore {
+  private readonly maxSessions: number;
+  private readonly maxTurns: number;
+  private readonly ttlMs: number;
+  private sessions = new Map<string, Session>();
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.maxSessions = options.maxSessions ?? 100;
+    this.maxTurns = options.maxTurns ?? 10;
+    this.ttlMs = options.ttlMs ?? 30 * 60 * 1000;
+  }
+
+  /** Creates the store described by the `session_*` settings. */
+  static async fromConfig(): Promise<SessionStore> {
+    const config = await getConfig();
+    return new SessionStore({
+      maxSessions: config.sessionMaxSessions,
+      maxTurns: config.sessionMaxTurns,
+      ttlMs: config.sessionTtl * 1000,
+    });
+  }
+
+  /** Prior turns of the session, oldest first; empty for a new or expired session. */
+  history(client: ClientIdentity, sessionId: string, now = Date.now()): ConversationTurn[] {
+    const session = this.get(sessionKey(client, sessionId), now);
+    return session ? [...session.turns] : [];
+  }
+
+  append(client: ClientIdentity, sessionId: string, turn: ConversationTurn, now = Date.now()): void {
+    const key = sessionKey(client, sessionId);
+    const session = this.get(key, now) ?? { turns: [], lastUsed: now };
+    session.turns = [...session.turns, turn].slice(-this.maxTurns);
+    session.lastUsed = now;
+    // Re-insert so the map stays in least recently used order
+    this.sessions.delete(key);
+    this.sessions.set(key, session);
+    if (this.sessions.size > this.maxSessions) {
+      this.sessions.delete(this.sessions.keys().next().value!);
+    }
+  }
+
+  /** Forgets the session and returns the number of turns it had. */
+  reset(client: ClientIdentity, sessionId: string, now = Date.now()): number {
+    const key = sessionKey(client, sessionId);
+    const turns = this.get(key, now)?.turns.length ?? 0;
+    this.sessions.delete(key);
+    return turns;
+  }
+
+  private get(key: string, now: number): Session | undefined {
+    const session = this.sessions.get(key);
+    if (session && now - session.lastUsed > this.ttlMs) {
+      this.sessions.delete(key);
+      return undefined;
+    }
+    return session;
+  }
+}
+
+export function validateSessionId(sessionId: unknown): string {
+  if (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId)) {
+    throw new InvalidArgumentError(
+      'sessionId must be 1-128 characters of letters, digits, "_", "-", "." or ":".'
+    );
+  }
+  return sessionId;
+}
+
+function sessionKey(client: ClientIdentity, sessionId: string): string {
+  return `${client.name}\u0000${sessionId}`;
+}
@@ -1,11 +1,12 @@
-import { OAuth2Client } from 'google-auth-library';
-import { promises as fs } from 'node:fs';
-import path from 'node:path';
-import os from 'node:os';
+import { AuthClient } from 'google-auth-library';
+import { getLoadedConfig, getUserConfigPath, writeConfigFile } from './config.js';
+import { CredentialStore, DEFAULT_PROFILE } from './credentials.js';
 
-interface ProjectSetupResponse {
+export interface ProjectSetupResponse {
   cloudaicompanionProject?: string;
   userTier?: string;
+  /** Code Assist tier of the account, e.g. { id: 'free-tier', name: 'Gemini Code Assist for individuals' }. */
+  currentTier?: { id?: string; name?: string };
   onboardingRequired?: boolean;
 }
 
@@ -16,20 +17,27 @@ interface ClientMetadata {
   duetProject?: string;
 }
 
-export async function setupUserProject(authClient: OAuth2Client): Promise<string> {
-  let projectId = process.env.GOOGLE_CLOUD_PROJECT;
-  
-  // 設定ファイルから既存のプロジェクトIDを読み込み
-  try {
-    const configPath = path.join(os.homedir(), '.google-web-search', 'config.json');
-    const configData = await fs.readFile(configPath, 'utf-8');
-    const config = JSON.parse(configData);
-    if (config.project_id && !projectId) {
-      projectId = config.project_id;
-      console.error(`Using saved project ID: ${projectId}`);
-    }
-  } catch (error) {
-    // 設定ファイルが存在しない場合は無視
+/**
+ * The project to use for the `auth_profile` profile: GOOGLE_CLOUD_PROJECT,
+ * --project or .gsearchrc when set, otherwise the project saved with the
+ * profile. The default profile also falls back to the user config.
+ */
+export async function getProfileProjectId(): Promise<string | undefined> {
+  const { config, sources } = await getLoadedConfig();
+  if (sources.projectId === 'env' || sources.projectId === 'cli' || sources.projectId === 'project') {
+    return config.projectId;
+  }
+  const saved = await (await CredentialStore.fromConfig()).load(config.authProfile).catch(() => null);
+  return saved?.projectId ?? (config.authProfile === DEFAULT_PROFILE ? config.projectId : undefined);
+}
+
+export async function setupUserProject(authClient: AuthClient): Promise<string> {
+  // 環境変数・設定ファイル・プロファイルから既存のプロジェクトIDを読み込み
+  const { config, sources } = await getLoadedConfig();
+  const profile = config.authProfile;
+  let projectId = await getProfileProjectId();
+  if (projectId && sources.projectId !== 'env' && sources.projectId !== 'cli') {
+    console.error(`Using saved project ID: ${projectId}`);
   }
 
   // まずloadCodeAssistを呼び出してプロジェクトを検出（プロジェクトIDなしでも試行）
@@ -42,7 +50,7 @@ export async function setupUserProject(authClient: OAuth2Client): Promise<string
       console.error(`✅ Detected project: ${projectId}`);
       
       // 検出されたプロジェクトIDを保存
-      await saveProjectConfig(projectId);
+      await saveProjectConfig(projectId, profile);
     }
 
     // オンボーディングが必要な場合（プロジェクトIDの有無に関わらず）
@@ -52,7 +60,7 @@ export async function setupUserProject(authClient: OAuth2Client): Promise<string
       if (onboardedProjectId) {
         projectId = onboardedProjectId;
         console.error(`✅ Setup completed with project: ${projectId}`);
-        await saveProjectConfig(projectId);
+        await saveProjectConfig(projectId, profile);
       }
     }
 
@@ -84,7 +92,7 @@ export async function setupUserProject(authClient: OAuth2Client): Promise<string
   }
 }
 
-async function loadCodeAssist(authClient: OAuth2Client, projectId?: string): Promise<ProjectSetupResponse> {
+export async function loadCodeAssist(authClient: AuthClient, projectId?: string): Promise<ProjectSetupResponse> {
   const endpoint = 'https://cloudcode-pa.googleapis.com/v1internal:loadCodeAssist';
   
   const clientMetadata: ClientMetadata = {
@@ -122,7 +130,7 @@ async function loadCodeAssist(authClient: OAuth2Client, projectId?: string): Pro
   return await response.json();
 }
 
-async function onboardUser(authClient: OAuth2Client, projectId?: string): Promise<string> {
+async function onboardUser(authClient: AuthClient, projectId?: string): Promise<string> {
   const endpoint = 'https://cloudcode-pa.googleapis.com/v1internal:onboardUser';
   
   const requestBody = {
@@ -181,21 +189,21 @@ export async function checkApiEnabled(projectId: string): Promise<boolean> {
   }
 }
 
-async function saveProjectConfig(projectId: string): Promise<void> {
+async function saveProjectConfig(projectId: string, profile: string): Promise<void> {
   try {
-    const configDir = path.join(os.homedir(), '.google-web-search');
-    const configPath = path.join(configDir, 'config.json');
-    
-    await fs.mkdir(configDir, { recursive: true });
-    
-    const config = {
-      project_id: projectId,
-      setup_date: new Date().toISOString(),
-      auth_type: 'oauth'
-    };
-    
-    await fs.writeFile(configPath, JSON.stringify(config, null, 2));
-    console.error(`💾 Saved project configuration: ${configPath}`);
+    const store = await CredentialStore.fromConfig();
+    const saved = await store.setProjectId(profile, projectId);
+    // 既定のプロファイルは従来どおりユーザー設定にも保存する
+    if (profile === DEFAULT_PROFILE) {
+      await writeConfigFile({
+        project_id: projectId,
+        setup_date: new Date().toISOString(),
+        auth_type: 'oauth'
+      });
+      console.error(`💾 Saved project configuration: ${getUserConfigPath()}`);
+    } else if (saved) {
+      console.error(`💾 Saved project for profile "${profile}": ${store.getPath(profile)}`);
+    }
   } catch (error) {
     console.error('Warning: Could not save project configuration:', error);
   }
@@ -0,0 +1,38 @@
+export interface GroundingChunkWeb {
+  uri?: string;
+  title?: string;
+}
+
+export interface GroundingChunkItem {
+  web?: GroundingChunkWeb;
+}
+
+export interface GroundingSupportSegment {
+  startIndex: number;
+  endIndex: number;
+  text?: string;
+}
+
+export interface GroundingSupportItem {
+  segment?: GroundingSupportSegment;
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
+}
+
+export interface SearchResult {
+  query: string;
+  responseText: string;
+  sources: GroundingChunkItem[];
+  supports: GroundingSupportItem[];
+  /** Name of the backend that produced the answer. */
+  backend: string;
+  /** Model that produced the answer. */
+  model?: string;
+}
+
+/** An earlier question and answer in a conversational search session. */
+export interface ConversationTurn {
+  query: string;
+  answer: string;
+  sources: GroundingChunkItem[];
+}
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidArgumentError, searchBatch } from '../src/search.js';
+import { createTestService, isolateConfig, registerTestBackend } from './helpers.js';
+
+await isolateConfig();
+
+let inFlight = 0;
+let maxInFlight = 0;
+
+registerTestBackend('batch-test', async (query) => {
+  inFlight++;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  inFlight--;
+  if (query === 'bad') {
+    throw new InvalidArgumentError('bad query');
+  }
+  return { query, responseText: `answer to ${query}`, sources: [], supports: [], backend: 'batch-test' };
+});
+
+test('runs a batch with bounded concurrency and per-query errors', async () => {
+  const service = createTestService('batch-test');
+  const queries = ['a', 'bad', 'c', 'd', 'e'];
+  const charged: string[] = [];
+
+  const items = await searchBatch(service, queries, {
+    concurrency: 2,
+    beforeSearch: (query) => {
+      charged.push(query);
+      if (query === 'e') {
+        throw new Error('over budget');
+      }
+    },
+  });
+
+  assert.deepEqual(items.map((item) => item.query), queries);
+  assert.equal(items[0].result?.responseText, 'answer to a');
+  assert.ok(items[1].error instanceof InvalidArgumentError);
+  assert.equal(items[3].result?.responseText, 'answer to d');
+  assert.match(items[4].error?.message ?? '', /over budget/);
+  assert.deepEqual(charged.sort(), [...queries].sort());
+  assert.equal(maxInFlight, 2);
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { insertCitationMarkers } from '../src/citations.js';
+import { remapSupports } from '../src/grounding.js';
+import { createSegmentResolver } from '../src/offsets.js';
+import { GroundingSupportItem } from '../src/types.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Loads a response from test/fixtures. The fixtures are synthetic: written by
+ * hand in the shape of a Gemini generateContent response, with byte offsets
+ * worked out for their text and made-up redirect IDs. They are not captured
+ * API responses.
+ */
+function loadFixture(name: string): { text: string; supports: GroundingSupportItem[] } {
+  const response = JSON.parse(readFileSync(join(__dirname, 'fixtures', name), 'utf-8'));
+  const candidate = response.candidates[0];
+  return {
+    text: candidate.content.parts.map((part: { text: string }) => part.text).join(''),
+    supports: candidate.groundingMetadata.groundingSupports,
+  };
+}
+
+test('places markers after Japanese sentences using byte offsets', () => {
+  const { text, supports } = loadFixture('grounding-ja.json');
+
+  assert.equal(
+    insertCitationMarkers(text, supports),
+    '東京都の人口は約1,400万人です。[1]' +
+      'これは日本の総人口の約11%に相当します。[2][1]' +
+      '東京都は世界最大級の都市圏を形成しています。[1]'
+  );
+});
+
+test('does not split emoji, ZWJ sequences or skin tone modifiers', () => {
+  const { text, supports } = loadFixture('grounding-emoji.json');
+
+  assert.equal(
+    insertCitationMarkers(text, supports),
+    'The 😂 emoji was the most used emoji in 2021.[2] ' +
+      'Family emoji like 👨‍👩‍👧‍👦 are sequences joined by zero-width joiners.[1][2] ' +
+      'Skin tone modifiers such as 👍🏽 combine two code points.[1]'
+  );
+});
+
+test('handles accented Latin text and typographic apostrophes', () => {
+  const { text, supports } = loadFixture('grounding-accented.json');
+
+  assert.equal(
+    insertCitationMarkers(text, supports),
+    'La crème brûlée est un dessert français.[1] ' +
+      'Son origine est disputée entre la France, l’Espagne et l’Angleterre.[1][2] ' +
+      'Le café crème se sert au petit-déjeuner.[2]'
+  );
+});
+
+test('uses byte offsets when segments carry no text', () => {
+  const { text, supports } = loadFixture('grounding-no-text.json');
+
+  assert.ok(supports.every((support) => support.segment?.text === undefined));
+  assert.equal(
+    insertCitationMarkers(text, supports),
+    'Cafe\u0301 cre\u0300me is coffee with cream.[1] ' +
+      '寿司🍣は日本料理です。[2][1] ' +
+      'The flag 🇯🇵 and the family 👩‍👩‍👧 are single graphemes.[2] ' +
+      'Man\u0303ana spells n\u0303 with a combining tilde.[1][2]'
+  );
+});
+
+test('drops low-confidence claims from multibyte text', () => {
+  const { text, supports } = loadFixture('grounding-accented.json');
+
+  assert.equal(
+    insertCitationMarkers(text, supports, { minConfidence: 0.5, lowConfidence: 'drop' }),
+    'La crème brûlée est un dessert français.[1] ' +
+      'Son origine est disputée entre la France, l’Espagne et l’Angleterre.[1][2]'
+  );
+});
+
+test('deduplicates identical markers for supports ending at the same offset', () => {
+  const text = 'Café au lait is coffee with milk.';
+  const end = Buffer.byteLength(text, 'utf8');
+  const supports: GroundingSupportItem[] = [
+    { segment: { startIndex: 0, endIndex: end }, groundingChunkIndices: [0, 1] },
+    { segment: { startIndex: 0, endIndex: end }, groundingChunkIndices: [1, 0, 2] },
+  ];
+
+  assert.equal(insertCitationMarkers(text, supports), 'Café au lait is coffee with milk.[1][2][3]');
+});
+
+test('snaps offsets inside a multibyte character forward to the next grapheme', () => {
+  const text = '価格は¥500です';
+  const resolve = createSegmentResolver(text);
+
+  // Byte 10 is the middle of "¥" (bytes 9-10)
+  assert.deepEqual(resolve({ startIndex: 0, endIndex: 10 }), { start: 0, end: 4 });
+  // Byte 5 is inside the ZWJ family emoji
+  assert.deepEqual(createSegmentResolver('a 👨‍👩‍👧 b')({ startIndex: 0, endIndex: 5 }), { start: 0, end: 10 });
+  // Byte 4 is between "e" and its combining acute accent
+  assert.deepEqual(createSegmentResolver('Cafe\u0301 au lait')({ startIndex: 0, endIndex: 4 }), { start: 0, end: 5 });
+});
+
+test('recovers segments whose offsets were counted in UTF-16 code units', () => {
+  const text = 'Ünïcödé first. Second sentence.';
+  const resolve = createSegmentResolver(text);
+
+  assert.deepEqual(resolve({ startIndex: 15, endIndex: 31, text: 'Second sentence.' }), { start: 15, end: 31 });
+});
+
+test('drops confidence scores that no longer line up after remapping sources', () => {
+  const mapping = new Map([[1, 0]]);
+
+  assert.deepEqual(remapSupports([{ groundingChunkIndices: [0, 1], confidenceScores: [0.9] }], mapping), [
+    { groundingChunkIndices: [0] },
+  ]);
+  assert.deepEqual(remapSupports([{ groundingChunkIndices: [0, 1], confidenceScores: [0.9, 0.4] }], mapping), [
+    { groundingChunkIndices: [0], confidenceScores: [0.4] },
+  ]);
+});
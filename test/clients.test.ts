@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ANONYMOUS_CLIENT, ClientAccessError, ClientRegistry } from '../src/clients.js';
+
+const ALICE_TOKEN = 'alice-token-0123456789';
+const BOB_TOKEN = 'bob-token-0123456789';
+
+test('authenticates clients by token', () => {
+  assert.equal(new ClientRegistry().authenticate(undefined), ANONYMOUS_CLIENT);
+
+  const registry = new ClientRegistry([
+    { name: 'alice', token: ALICE_TOKEN },
+    { name: 'bob', token: BOB_TOKEN },
+  ]);
+  assert.equal(registry.authenticate(ALICE_TOKEN).name, 'alice');
+  assert.equal(registry.authenticate(BOB_TOKEN).name, 'bob');
+  assert.throws(() => registry.authenticate('wrong'), (error: unknown) =>
+    error instanceof ClientAccessError && error.reason === 'unauthorized'
+  );
+  assert.throws(() => registry.authenticate(undefined), ClientAccessError);
+});
+
+test('enforces per-client rate limits and daily budgets', () => {
+  const registry = new ClientRegistry(
+    [
+      { name: 'alice', token: ALICE_TOKEN, rateLimit: 2 },
+      { name: 'bob', token: BOB_TOKEN },
+    ],
+    { dailyBudget: 3 }
+  );
+  const alice = registry.authenticate(ALICE_TOKEN);
+  const bob = registry.authenticate(BOB_TOKEN);
+  const start = Date.parse('2025-06-01T12:00:00Z');
+
+  registry.consume(alice, start);
+  registry.consume(alice, start + 1000);
+  assert.throws(() => registry.consume(alice, start + 2000), (error: unknown) =>
+    error instanceof ClientAccessError && error.reason === 'rate_limited' && error.retryAfterMs === 58_000
+  );
+  // Bob has his own counters
+  registry.consume(bob, start + 2000);
+
+  registry.consume(alice, start + 61_000);
+  assert.throws(() => registry.consume(alice, start + 130_000), (error: unknown) =>
+    error instanceof ClientAccessError && error.reason === 'budget_exceeded'
+  );
+  // The budget resets at midnight UTC
+  registry.consume(alice, Date.parse('2025-06-02T00:00:01Z'));
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { CredentialStore } from '../src/credentials.js';
+import { InvalidArgumentError, SearchError } from '../src/errors.js';
+
+const credentials = { access_token: 'ya29.token', refresh_token: '1//refresh', expiry_date: 1 };
+
+test('keeps one private credential file per profile and reads the legacy format', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gsearch-creds-'));
+  const store = new CredentialStore({ dir });
+
+  // 旧バージョンが既定の権限で書いたファイル
+  await fs.writeFile(path.join(dir, 'mcp_oauth_creds.json'), JSON.stringify(credentials), { mode: 0o644 });
+  assert.deepEqual(await store.load('default'), { credentials, projectId: undefined });
+  if (process.platform !== 'win32') {
+    assert.equal((await fs.stat(path.join(dir, 'mcp_oauth_creds.json'))).mode & 0o777, 0o600);
+  }
+
+  await store.save('work', { credentials });
+  assert.equal(await store.setProjectId('work', 'work-project'), true);
+  assert.equal((await store.load('work'))?.projectId, 'work-project');
+  if (process.platform !== 'win32') {
+    assert.equal((await fs.stat(store.getPath('work'))).mode & 0o777, 0o600);
+  }
+  assert.deepEqual(await store.list(), ['default', 'work']);
+
+  assert.equal(await store.remove('work'), true);
+  assert.equal(await store.load('work'), null);
+  assert.throws(() => store.getPath('../evil'), InvalidArgumentError);
+  await fs.rm(dir, { recursive: true });
+});
+
+test('encrypts the tokens with the credential key', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gsearch-creds-'));
+  await new CredentialStore({ dir, storage: 'encrypted', key: 'correct horse' }).save('default', {
+    credentials,
+    projectId: 'my-project',
+  });
+
+  const file = await fs.readFile(path.join(dir, 'mcp_oauth_creds.json'), 'utf-8');
+  assert.equal(file.includes('refresh'), false);
+  assert.deepEqual(
+    await new CredentialStore({ dir, storage: 'encrypted', key: 'correct horse' }).load('default'),
+    { credentials, projectId: 'my-project' }
+  );
+  await assert.rejects(new CredentialStore({ dir, storage: 'encrypted', key: 'wrong' }).load('default'), SearchError);
+  await assert.rejects(new CredentialStore({ dir }).load('default'), /encrypted/);
+  assert.throws(() => new CredentialStore({ dir, storage: 'encrypted' }), InvalidArgumentError);
+  await fs.rm(dir, { recursive: true });
+});
+
+test('removes the keychain entry when the profile moves to file storage', { skip: process.platform !== 'linux' }, async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gsearch-creds-'));
+  // secret-tool の代わりに、秘密をファイルに置くスクリプト
+  const bin = path.join(dir, 'bin');
+  await fs.mkdir(bin);
+  await fs.writeFile(
+    path.join(bin, 'secret-tool'),
+    '#!/bin/sh\nstore="$(dirname "$0")/secret"\n' +
+    'case "$1" in store) cat > "$store" ;; lookup) cat "$store" ;; clear) rm -f "$store" ;; esac\n',
+    { mode: 0o755 }
+  );
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+  try {
+    await new CredentialStore({ dir, storage: 'keychain' }).save('default', { credentials });
+    assert.equal((await fs.readFile(path.join(dir, 'mcp_oauth_creds.json'), 'utf-8')).includes('refresh'), false);
+    assert.deepEqual((await new CredentialStore({ dir }).load('default'))?.credentials, credentials);
+
+    await new CredentialStore({ dir, storage: 'file' }).save('default', { credentials });
+    await assert.rejects(fs.access(path.join(bin, 'secret')));
+    assert.deepEqual((await new CredentialStore({ dir }).load('default'))?.credentials, credentials);
+  } finally {
+    process.env.PATH = originalPath;
+    await fs.rm(dir, { recursive: true });
+  }
+});
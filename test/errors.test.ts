@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AuthExpiredError,
+  ProjectNotConfiguredError,
+  QuotaExceededError,
+  UpstreamError,
+  errorFromResponse,
+  shouldFallback,
+  toSearchError,
+} from '../src/errors.js';
+import { withRetry } from '../src/retry.js';
+
+test('classifies Code Assist error responses', () => {
+  const quota = errorFromResponse(429, 'Too Many Requests', '', new Headers({ 'retry-after': '2' }));
+  assert.ok(quota instanceof QuotaExceededError);
+  assert.equal(quota.retryAfterMs, 2000);
+
+  const retryInfo = JSON.stringify({
+    error: {
+      status: 'RESOURCE_EXHAUSTED',
+      details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '1.5s' }],
+    },
+  });
+  assert.equal((errorFromResponse(429, 'Too Many Requests', retryInfo) as QuotaExceededError).retryAfterMs, 1500);
+
+  assert.ok(errorFromResponse(401, 'Unauthorized', '') instanceof AuthExpiredError);
+  assert.ok(
+    errorFromResponse(403, 'Forbidden', '{"error":{"message":"Permission denied on project foo"}}') instanceof
+      ProjectNotConfiguredError
+  );
+  assert.equal(errorFromResponse(503, 'Service Unavailable', '').exitCode, 6);
+});
+
+test('classifies SDK and network errors', () => {
+  assert.ok(toSearchError(Object.assign(new Error('[429 Too Many Requests]'), { status: 429 })) instanceof QuotaExceededError);
+  assert.ok(toSearchError(new Error('invalid_grant')) instanceof AuthExpiredError);
+
+  const reset = toSearchError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }));
+  assert.ok(reset instanceof UpstreamError);
+  assert.equal(reset.code, 'ECONNRESET');
+
+  // gaxios (google-auth-library) errors carry the status on the response
+  assert.ok(toSearchError(Object.assign(new Error('Unauthorized'), { response: { status: 401 } })) instanceof AuthExpiredError);
+  assert.equal(toSearchError('plain failure').message, 'plain failure');
+});
+
+test('falls back on auth, project and quota failures but not on other 403s', () => {
+  assert.equal(shouldFallback(errorFromResponse(429, 'Too Many Requests', '')), true);
+  assert.equal(shouldFallback(errorFromResponse(401, 'Unauthorized', '')), true);
+  assert.equal(shouldFallback(errorFromResponse(403, 'Forbidden', 'Permission denied on project foo')), true);
+  assert.equal(shouldFallback(errorFromResponse(403, 'Forbidden', 'Caller does not have permission')), false);
+  assert.equal(shouldFallback(errorFromResponse(503, 'Service Unavailable', '')), false);
+});
+
+test('retries transient failures and gives up on permanent ones', async () => {
+  let calls = 0;
+  const result = await withRetry(
+    async () => {
+      calls++;
+      if (calls < 3) {
+        throw errorFromResponse(503, 'Service Unavailable', '');
+      }
+      return 'ok';
+    },
+    { baseDelayMs: 1 }
+  );
+  assert.equal(result, 'ok');
+  assert.equal(calls, 3);
+
+  calls = 0;
+  await assert.rejects(
+    withRetry(async () => {
+      calls++;
+      throw errorFromResponse(401, 'Unauthorized', '');
+    }),
+    AuthExpiredError
+  );
+  assert.equal(calls, 1);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CircuitBreaker } from '../src/circuit-breaker.js';
+import { QuotaExceededError, UpstreamError, registerBackend } from '../src/search.js';
+import { CodeAssistBackend } from '../src/backends/codeassist.js';
+import { createTestService, isolateConfig, registerTestBackend } from './helpers.js';
+
+await isolateConfig();
+
+const calls: string[] = [];
+let primaryError: Error | null = new QuotaExceededError('quota exceeded');
+
+registerTestBackend('primary-test', async (query) => {
+  calls.push('primary');
+  if (primaryError) {
+    throw primaryError;
+  }
+  return { query, responseText: 'from primary', sources: [], supports: [], backend: 'primary-test' };
+});
+registerBackend('codeassist-test', () => {
+  const backend = new CodeAssistBackend();
+  return Object.assign(backend, {
+    authClient: { getAccessToken: async () => ({ token: 'test-token' }) },
+    projectId: 'test-project',
+    initialize: async () => {},
+  });
+});
+registerTestBackend('secondary-test', async (query) => {
+  calls.push('secondary');
+  return { query, responseText: 'from secondary', sources: [], supports: [], backend: 'secondary-test' };
+});
+
+test('opens after repeated failures and lets one trial request through when half-open', async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 20 });
+  assert.equal(breaker.canRequest(), true);
+  breaker.recordFailure();
+  assert.equal(breaker.state, 'closed');
+  breaker.recordFailure();
+  assert.equal(breaker.state, 'open');
+  assert.equal(breaker.canRequest(), false);
+
+  await sleep(30);
+  assert.equal(breaker.state, 'half-open');
+  assert.equal(breaker.canRequest(), true);
+  assert.equal(breaker.canRequest(), false, 'only one trial while it is in flight');
+  breaker.recordFailure();
+  assert.equal(breaker.state, 'open', 'a failed trial reopens the circuit');
+
+  await sleep(30);
+  assert.equal(breaker.canRequest(), true);
+  breaker.recordIgnored();
+  assert.equal(breaker.canRequest(), true, 'an inconclusive trial frees the slot');
+  breaker.recordSuccess();
+  assert.equal(breaker.state, 'closed');
+  assert.equal(breaker.canRequest(), true);
+  assert.equal(breaker.canRequest(), true);
+});
+
+test('falls back to the next backend and skips one whose circuit is open', async () => {
+  const service = createTestService('primary-test', {
+    fallback: ['secondary-test'],
+    circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 },
+  });
+
+  calls.length = 0;
+  assert.equal((await service.search('first')).backend, 'secondary-test');
+  assert.equal((await service.search('second')).backend, 'secondary-test');
+  assert.deepEqual(calls, ['primary', 'secondary', 'primary', 'secondary']);
+
+  // Two failures opened the primary's circuit
+  calls.length = 0;
+  await service.search('third');
+  assert.deepEqual(calls, ['secondary']);
+});
+
+test('falls back when Code Assist refuses the request with 403', async (t) => {
+  const fetch = t.mock.method(globalThis, 'fetch', async () =>
+    new Response('{"error":{"code":403,"message":"The caller does not have permission","status":"PERMISSION_DENIED"}}', {
+      status: 403,
+      statusText: 'Forbidden',
+    })
+  );
+  const service = createTestService('codeassist-test', { fallback: ['secondary-test'] });
+
+  calls.length = 0;
+  assert.equal((await service.search('query')).backend, 'secondary-test');
+  assert.equal(fetch.mock.callCount(), 1);
+  assert.deepEqual(calls, ['secondary']);
+});
+
+test('reports errors that are not auth, project or quota failures without falling back', async () => {
+  const service = createTestService('primary-test', { fallback: ['secondary-test'] });
+  const error = new UpstreamError('boom');
+  primaryError = error;
+  calls.length = 0;
+  await assert.rejects(service.search('query'), (thrown) => thrown === error);
+  assert.deepEqual(calls, ['primary']);
+
+  primaryError = null;
+  assert.equal((await service.search('query')).backend, 'primary-test');
+});
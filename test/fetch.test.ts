@@ -0,0 +1,138 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { SourceFetcher, pinnedFetch, renderFetchedPage } from '../src/fetch.js';
+import { htmlToMarkdown } from '../src/html.js';
+import { RobotsRules } from '../src/robots.js';
+import { InvalidArgumentError, SearchError } from '../src/errors.js';
+
+const ARTICLE = `<!doctype html>
+<html>
+<head><title>Event loop &amp; tasks</title><style>body { color: red }</style></head>
+<body>
+  <header><a href="/">Home</a></header>
+  <nav><ul><li><a href="/docs">Docs</a></li></ul></nav>
+  <div class="cookie-banner">We use cookies</div>
+  <main>
+    <h1>Event loop</h1>
+    <p>The <strong>event loop</strong> runs <a href="/tasks">tasks</a> one at a time.</p>
+    <ul><li>Macrotasks</li><li>Microtasks</li></ul>
+    <pre><code class="language-js">setTimeout(run, 0);
+queueMicrotask(run);</code></pre>
+    <script>track()</script>
+  </main>
+  <footer>Copyright</footer>
+</body>
+</html>`;
+
+const server = http.createServer((req, res) => {
+  switch (req.url) {
+    case '/robots.txt':
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('User-agent: *\nDisallow: /private\nAllow: /private/open\n');
+      break;
+    case '/article':
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(ARTICLE);
+      break;
+    case '/old':
+      res.writeHead(301, { Location: '/article' }).end();
+      break;
+    case '/large':
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('x'.repeat(10000));
+      break;
+    case '/slow':
+      setTimeout(() => res.writeHead(200, { 'Content-Type': 'text/plain' }).end('late'), 500);
+      break;
+    case '/image':
+      res.writeHead(200, { 'Content-Type': 'image/png' }).end(Buffer.alloc(10));
+      break;
+    default:
+      res.writeHead(404).end();
+  }
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+test('converts the main content of a page to Markdown', async () => {
+  const fetcher = new SourceFetcher({ allowPrivate: true, timeoutMs: 2000 });
+  const page = await fetcher.fetch(`${base}/old`);
+
+  assert.equal(page.finalUrl, `${base}/article`);
+  assert.equal(page.title, 'Event loop & tasks');
+  assert.equal(
+    page.text,
+    [
+      '# Event loop',
+      '',
+      `The **event loop** runs [tasks](${base}/tasks) one at a time.`,
+      '',
+      '- Macrotasks',
+      '- Microtasks',
+      '',
+      '```js',
+      'setTimeout(run, 0);',
+      'queueMicrotask(run);',
+      '```',
+    ].join('\n')
+  );
+  const rendered = renderFetchedPage(page);
+  assert.match(rendered, new RegExp(`^# Event loop & tasks\n\nSource: ${base}/old\nFetched from: ${base}/article\n`));
+});
+
+test('enforces robots.txt, size, time and network limits', async () => {
+  const fetcher = new SourceFetcher({ allowPrivate: true, timeoutMs: 200, maxBytes: 1024 });
+
+  await assert.rejects(fetcher.fetch(`${base}/private/page`), /disallowed by the site's robots\.txt/);
+  await assert.rejects(fetcher.fetch(`${base}/private/open`), /404/);
+  await assert.rejects(fetcher.fetch(`${base}/slow`), /Timed out/);
+  await assert.rejects(fetcher.fetch(`${base}/image`), /unsupported content type image\/png/);
+
+  const large = await fetcher.fetch(`${base}/large`, { maxLength: 100 });
+  assert.equal(large.truncatedBytes, true);
+  assert.equal(large.totalLength, 1024);
+  assert.equal(large.text.length, 100);
+  assert.match(renderFetchedPage(large), /Call again with offset 100/);
+
+  await assert.rejects(new SourceFetcher().fetch(`${base}/article`), InvalidArgumentError);
+  await assert.rejects(new SourceFetcher().fetch('file:///etc/passwd'), InvalidArgumentError);
+  await assert.rejects(fetcher.fetch(`${base}/missing`), (error: SearchError) => error.status === 404);
+});
+
+test('connects to the vetted address instead of resolving the host again', async () => {
+  // 名前解決できないホスト名でも、固定したアドレスに接続される
+  const url = new URL(`http://pinned.invalid:${(server.address() as AddressInfo).port}/article`);
+  const response = await pinnedFetch(url, { headers: { 'User-Agent': 'test' } }, { address: '127.0.0.1', family: 4 });
+
+  assert.equal(response.status, 200);
+  assert.match(await response.text(), /<h1>Event loop<\/h1>/);
+});
+
+test('parses deeply nested pages in linear time without overflowing the stack', () => {
+  const started = Date.now();
+  const unclosed = htmlToMarkdown(`${'<div>'.repeat(80000)}x${'</p>'.repeat(80000)}`, base);
+  const closed = htmlToMarkdown(`${'<div>'.repeat(80000)}y${'</div>'.repeat(80000)}<p>after</p>`, base);
+
+  assert.equal(unclosed.markdown, 'x');
+  assert.equal(closed.markdown, 'y\n\nafter');
+  assert.ok(Date.now() - started < 5000);
+});
+
+test('applies the most specific robots.txt rule for the agent', () => {
+  const robots = [
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: gsearch-bot',
+    'User-agent: other-bot',
+    'Disallow: /search',
+    'Allow: /search/about$',
+    'Disallow: /*.pdf$',
+  ].join('\n');
+  const rules = RobotsRules.parse(robots, 'gsearch-bot/1.0');
+  assert.equal(rules.isAllowed('https://example.com/docs'), true);
+  assert.equal(rules.isAllowed('https://example.com/search?q=1'), false);
+  assert.equal(rules.isAllowed('https://example.com/search/about'), true);
+  assert.equal(rules.isAllowed('https://example.com/files/a.pdf'), false);
+  assert.equal(RobotsRules.parse(robots, 'unknown-bot').isAllowed('https://example.com/docs'), false);
+});
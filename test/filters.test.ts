@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyQueryOperators,
+  filterInstruction,
+  filterSources,
+  normalizeFilters,
+} from '../src/filters.js';
+import { InvalidArgumentError } from '../src/errors.js';
+import { SearchResult } from '../src/types.js';
+
+const now = new Date('2025-06-10T12:00:00Z');
+
+test('turns filters into query operators and model instructions', () => {
+  const filters = normalizeFilters({
+    sites: ['https://docs.python.org/3/', 'www.peps.python.org'],
+    excludeSites: ['Example.com'],
+    timeRange: 'week',
+    language: 'ja',
+    region: 'jp',
+  });
+  assert.deepEqual(filters.sites, ['docs.python.org', 'peps.python.org']);
+  assert.equal(filters.region, 'JP');
+
+  assert.equal(
+    applyQueryOperators('asyncio tutorial', filters, now),
+    'asyncio tutorial (site:docs.python.org OR site:peps.python.org) -site:example.com after:2025-06-03'
+  );
+  const instruction = filterInstruction(filters, now) ?? '';
+  assert.match(instruction, /Only use sources from these sites: docs\.python\.org, peps\.python\.org\./);
+  assert.match(instruction, /on or after 2025-06-03/);
+  assert.match(instruction, /"ja"/);
+
+  assert.throws(() => normalizeFilters({ sites: ['not a domain'] }), InvalidArgumentError);
+  assert.throws(() => normalizeFilters({ timeRange: 'decade' as never }), InvalidArgumentError);
+  assert.throws(() => normalizeFilters({ region: 'Japan' }), InvalidArgumentError);
+});
+
+test('removes sources that break the site rules and renumbers supports', () => {
+  const result: SearchResult = {
+    query: 'q',
+    responseText: 'First claim. Second claim.',
+    backend: 'test',
+    sources: [
+      { web: { uri: 'https://docs.python.org/3/library/asyncio.html', title: 'asyncio' } },
+      { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc', title: 'example.com' } },
+      { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/def', title: 'docs.python.org' } },
+    ],
+    supports: [
+      { segment: { startIndex: 0, endIndex: 12 }, groundingChunkIndices: [0, 1], confidenceScores: [0.9, 0.8] },
+      { segment: { startIndex: 13, endIndex: 26 }, groundingChunkIndices: [1], confidenceScores: [0.7] },
+      { segment: { startIndex: 13, endIndex: 26 }, groundingChunkIndices: [2], confidenceScores: [0.6] },
+    ],
+  };
+
+  const filtered = filterSources(result, { sites: ['python.org'] });
+  assert.deepEqual(filtered.sources.map((source) => source.web?.title), ['asyncio', 'docs.python.org']);
+  assert.deepEqual(filtered.supports.map((support) => support.groundingChunkIndices), [[0], [1]]);
+  assert.deepEqual(filtered.supports.map((support) => support.confidenceScores), [[0.9], [0.6]]);
+
+  const excluded = filterSources(result, { excludeSites: ['example.com'] });
+  assert.equal(excluded.sources.length, 2);
+  assert.equal(filterSources(result, {}), result);
+});
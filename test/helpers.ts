@@ -0,0 +1,44 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SearchBackend } from '../src/backend.js';
+import { CONFIG_SCHEMA } from '../src/config.js';
+import { SearchService, SearchServiceOptions, registerBackend } from '../src/search.js';
+
+/**
+ * Points HOME at an empty temporary directory and clears the environment
+ * variables of every setting, so getConfig() never reads the developer's own
+ * configuration. Call it before anything loads the config.
+ */
+export async function isolateConfig(): Promise<string> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'gsearch-test-'));
+  process.env.HOME = home;
+  for (const option of Object.values(CONFIG_SCHEMA)) {
+    for (const name of option.env ?? []) {
+      delete process.env[name];
+    }
+  }
+  return home;
+}
+
+/** Registers a backend named `name` whose searches are answered by `search`. */
+export function registerTestBackend(name: string, search: SearchBackend['search']): void {
+  registerBackend(name, () => ({
+    name,
+    model: 'test-model',
+    async initialize() {},
+    search,
+  }));
+}
+
+/** A SearchService over test backends, without cache, URL resolver or configured fallback. */
+export function createTestService(backend: string, options: SearchServiceOptions = {}): SearchService {
+  return new SearchService({
+    backend,
+    fallback: [],
+    cache: null,
+    resolver: null,
+    generation: { defaults: {}, allowedModels: [] },
+    ...options,
+  });
+}
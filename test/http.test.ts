@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpHttpServer, McpHttpServerOptions } from '../src/http.js';
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+});
+
+/** An MCP server with one `wait` tool that answers after `ms` milliseconds. */
+function createServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'wait', inputSchema: { type: 'object', properties: { ms: { type: 'number' } } } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    await sleep(Number(request.params.arguments?.ms ?? 0));
+    return { content: [{ type: 'text', text: 'done' }] };
+  });
+  return server;
+}
+
+async function start(options: Partial<McpHttpServerOptions> = {}): Promise<McpHttpServer> {
+  const server = new McpHttpServer({ port: 0, host: '127.0.0.1', createServer, ...options });
+  await server.listen();
+  return server;
+}
+
+/** Sends a raw request so the Host header can be set. */
+function request(
+  server: McpHttpServer,
+  path: string,
+  headers: Record<string, string> = {},
+  body?: string
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      `${server.url}${path}`,
+      {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          ...(body && { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' }),
+          ...headers,
+        },
+      },
+      (res) => {
+        let text = '';
+        res.on('data', (chunk) => (text += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+test('rejects other hosts and origins when listening on loopback', async () => {
+  const server = await start({ allowedHosts: ['mcp.internal'] });
+  try {
+    assert.equal((await request(server, '/health')).status, 200);
+    assert.equal((await request(server, '/health', { Host: 'localhost:8787' })).status, 200);
+    assert.equal((await request(server, '/health', { Host: 'mcp.internal' })).status, 200);
+    assert.equal((await request(server, '/health', { Host: 'attacker.example:8787' })).status, 403);
+    assert.equal((await request(server, '/mcp', { Origin: 'https://attacker.example' }, INITIALIZE)).status, 403);
+    assert.equal((await request(server, '/mcp', { Origin: 'http://localhost:3000' }, INITIALIZE)).status, 200);
+  } finally {
+    await server.close();
+  }
+});
+
+test('limits the number of sessions and closes idle ones', async () => {
+  const server = await start({ maxSessions: 1, sessionIdleMs: 100 });
+  try {
+    assert.equal((await request(server, '/mcp', {}, INITIALIZE)).status, 200);
+    const refused = await request(server, '/mcp', {}, INITIALIZE);
+    assert.equal(refused.status, 503);
+    assert.match(refused.body, /Too many open sessions/);
+
+    await sleep(300);
+    assert.equal(JSON.parse((await request(server, '/health')).body).sessions, 0);
+    assert.equal((await request(server, '/mcp', {}, INITIALIZE)).status, 200);
+  } finally {
+    await server.close();
+  }
+});
+
+test('lets running tool calls finish before shutting down', async () => {
+  const server = await start();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${server.url}/mcp`)));
+
+  const call = client.callTool({ name: 'wait', arguments: { ms: 200 } });
+  await sleep(50);
+  await server.close();
+
+  assert.deepEqual((await call).content, [{ type: 'text', text: 'done' }]);
+  await client.close();
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { loadConfig } from '../src/config.js';
+import { AuthExpiredError, InvalidArgumentError } from '../src/errors.js';
+import {
+  detectOauthFlow,
+  getApplicationDefaultClient,
+  loginWithOauth,
+  parseAuthorizationResponse,
+  reserveStdinForProtocol,
+} from '../src/oauth.js';
+import { isolateConfig } from './helpers.js';
+
+const home = await isolateConfig();
+
+test('uses the browser flow only where a browser can open', () => {
+  assert.equal(detectOauthFlow({}, 'darwin', false), 'browser');
+  assert.equal(detectOauthFlow({ DISPLAY: ':0' }, 'linux', true), 'browser');
+  assert.equal(detectOauthFlow({ DISPLAY: ':0', SSH_CONNECTION: '10.0.0.1 22 10.0.0.2 22' }, 'linux', true), 'manual');
+  assert.equal(detectOauthFlow({}, 'linux', true), 'manual');
+  assert.throws(() => detectOauthFlow({ CI: 'true' }, 'darwin', false), (error: InvalidArgumentError) =>
+    error instanceof InvalidArgumentError && error.hint!.includes('gsearch auth login --oauth-flow manual')
+  );
+});
+
+test('reads the code from a pasted redirect URL or a bare code', () => {
+  const state = 'abc';
+  assert.equal(parseAuthorizationResponse('  4%2F0AbCd  ', state), '4/0AbCd');
+  assert.equal(
+    parseAuthorizationResponse('http://localhost:8085/oauth2callback?state=abc&code=4%2F0AbCd&scope=x', state),
+    '4/0AbCd'
+  );
+  assert.throws(() => parseAuthorizationResponse('http://localhost:8085/oauth2callback?state=evil&code=x', state), /State mismatch/);
+  assert.throws(() => parseAuthorizationResponse('http://localhost:8085/oauth2callback?error=access_denied', state), /access_denied/);
+  assert.throws(() => parseAuthorizationResponse('', state), /No authorization code/);
+});
+
+test('reports unusable Application Default Credentials as an auth error', async (t) => {
+  process.env.GOOGLE_APPLICATION_CREDENTIALS = path.join(home, 'service-account.json');
+  t.after(() => delete process.env.GOOGLE_APPLICATION_CREDENTIALS);
+  await assert.rejects(
+    getApplicationDefaultClient(),
+    (error: AuthExpiredError) => error instanceof AuthExpiredError && error.hint!.includes('service-account.json')
+  );
+});
+
+test('never prompts on stdin once it carries the MCP protocol', async () => {
+  reserveStdinForProtocol();
+  assert.throws(() => detectOauthFlow({}, 'linux'), InvalidArgumentError);
+
+  await loadConfig({ overrides: { oauthFlow: 'manual' } });
+  await assert.rejects(loginWithOauth(), (error: InvalidArgumentError) =>
+    error instanceof InvalidArgumentError && /MCP stdio channel/.test(error.message)
+  );
+});
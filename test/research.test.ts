@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UpstreamError, deepResearch, renderResearchReport } from '../src/search.js';
+import { parseQueries } from '../src/research.js';
+import { createTestService, isolateConfig, registerTestBackend } from './helpers.js';
+
+await isolateConfig();
+
+const source = (name: string) => ({ web: { uri: `https://${name}.example/`, title: `${name}.example` } });
+const prompts: string[] = [];
+
+registerTestBackend('research-test', async (query, options) => {
+  const result = { query, sources: [], supports: [], backend: 'research-test' };
+  if (options.grounding === false) {
+    prompts.push(query);
+    if (query.startsWith('You are planning')) {
+      return { ...result, responseText: '```json\n["rust async runtimes", "tokio vs async-std"]\n```' };
+    }
+    if (query.startsWith('You are doing web research')) {
+      return { ...result, responseText: '["Rust async runtimes", "async-std status"]' };
+    }
+    return { ...result, responseText: 'Tokio leads [2]. Both are mature [1, 3]. Unknown [9].' };
+  }
+  if (query === 'async-std status') {
+    throw new UpstreamError('boom');
+  }
+  const sources = query === 'rust async runtimes' ? [source('a'), source('b')] : [source('b'), source('c')];
+  const text = `About ${query}.`;
+  return {
+    ...result,
+    responseText: text,
+    sources,
+    supports: [{ segment: { startIndex: 0, endIndex: text.length }, groundingChunkIndices: [0, 1] }],
+  };
+});
+
+test('plans sub-queries in rounds and writes a report with merged citations', async () => {
+  const service = createTestService('research-test');
+  const charged: string[] = [];
+  const report = await deepResearch(service, 'Which Rust async runtime should I use?', {
+    maxSteps: 2,
+    maxQueries: 3,
+    beforeSearch: (query) => charged.push(query),
+  });
+
+  // Round 1 gets two of the three searches; round 2 skips the repeated query
+  assert.deepEqual(
+    report.steps.map((step) => [step.round, step.query, step.sourceNumbers, step.error?.name]),
+    [
+      [1, 'rust async runtimes', [1, 2], undefined],
+      [1, 'tokio vs async-std', [1, 3], undefined],
+      [2, 'async-std status', [], 'UpstreamError'],
+    ]
+  );
+  assert.deepEqual(charged, ['rust async runtimes', 'tokio vs async-std', 'async-std status']);
+
+  // Findings are cited against the merged list: a=1, b=2, c=3
+  const reportPrompt = prompts[prompts.length - 1];
+  assert.match(reportPrompt, /About rust async runtimes\.\[1\]\[2\]/);
+  assert.match(reportPrompt, /About tokio vs async-std\.\[2\]\[3\]/);
+
+  // The report is renumbered in order of first citation
+  assert.equal(report.report, 'Tokio leads [1]. Both are mature [2][3]. Unknown .');
+  assert.deepEqual(report.sources.map((s) => s.web?.title), ['b.example', 'a.example', 'c.example']);
+  assert.match(renderResearchReport(report, 'text'), /Sources:\n\[1\] b\.example \(https:\/\/b\.example\/\)/);
+});
+
+test('parses planned queries from JSON or plain lists', () => {
+  assert.deepEqual(parseQueries('["a", "B", 3, "c"]', ['b']), ['a', 'c']);
+  assert.deepEqual(parseQueries('1. first query\n2. second query', []), ['first query', 'second query']);
+  assert.deepEqual(parseQueries('[]', []), []);
+});
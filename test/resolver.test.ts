@@ -0,0 +1,94 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import http, { IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+import { UrlResolver, dedupeSources } from '../src/resolver.js';
+import { SearchResult } from '../src/types.js';
+
+let heads = 0;
+const server = http.createServer((req, res) => {
+  heads++;
+  if (req.url === '/redirect') {
+    res.writeHead(302, { Location: '/moved' }).end();
+  } else if (req.url === '/moved') {
+    res.writeHead(301, { Location: '/page?id=1&utm_source=gemini#top' }).end();
+  } else if (req.url === '/slow') {
+    setTimeout(() => res.writeHead(302, { Location: '/page' }).end(), 500);
+  } else {
+    res.writeHead(200).end();
+  }
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+test('follows redirects with HEAD requests and caches the destination', async () => {
+  const resolver = new UrlResolver({ timeoutMs: 200, allowPrivate: true });
+  assert.equal(await resolver.resolve(`${base}/redirect`), `${base}/page?id=1`);
+  const requests = heads;
+  assert.equal(await resolver.resolve(`${base}/redirect`), `${base}/page?id=1`);
+  assert.equal(heads, requests);
+
+  assert.equal(await resolver.resolve(`${base}/page`), null);
+  assert.equal(await resolver.resolve(`${base}/slow`), null);
+});
+
+test('does not send requests to private network addresses by default', async () => {
+  const requests = heads;
+  assert.equal(await new UrlResolver({ timeoutMs: 200 }).resolve(`${base}/redirect`), null);
+  assert.equal(heads, requests);
+});
+
+test('replaces redirect URIs in sources and merges duplicates', async (t) => {
+  const destinations: Record<string, string> = {
+    'https://vertexaisearch.cloud.google.com/grounding-api-redirect/a': 'https://docs.python.org/3/',
+    'https://vertexaisearch.cloud.google.com/grounding-api-redirect/b': 'https://docs.python.org/3/#intro',
+  };
+  // HEAD リクエストはネットワークに出さず、リダイレクトだけを返す
+  t.mock.method(https, 'request', (url: URL, _options: unknown, callback: (response: IncomingMessage) => void) => {
+    const location = destinations[url.toString()];
+    const response = Object.assign(Readable.from([]), {
+      statusCode: location ? 302 : 200,
+      statusMessage: location ? 'Found' : 'OK',
+      rawHeaders: location ? ['Location', location] : [],
+    });
+    const request = new EventEmitter();
+    return Object.assign(request, { end: () => setImmediate(() => callback(response as unknown as IncomingMessage)) });
+  });
+
+  const result: SearchResult = {
+    query: 'q',
+    responseText: 'A claim.',
+    backend: 'test',
+    sources: [
+      { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/a', title: 'docs.python.org' } },
+      { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/c', title: 'example.com' } },
+      { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/b', title: 'docs.python.org' } },
+    ],
+    supports: [
+      { segment: { startIndex: 0, endIndex: 8 }, groundingChunkIndices: [0, 2, 1], confidenceScores: [0.5, 0.9, 0.7] },
+    ],
+  };
+  const resolved = await new UrlResolver({ allowPrivate: true }).resolveSources(result);
+  assert.deepEqual(resolved.sources.map((source) => source.web?.uri), [
+    'https://docs.python.org/3/',
+    // Unresolved URIs are kept so the title still serves as the domain hint
+    'https://vertexaisearch.cloud.google.com/grounding-api-redirect/c',
+  ]);
+  assert.deepEqual(resolved.supports[0].groundingChunkIndices, [0, 1]);
+  assert.deepEqual(resolved.supports[0].confidenceScores, [0.9, 0.7]);
+});
+
+test('dedupeSources leaves distinct sources untouched', () => {
+  const result: SearchResult = {
+    query: 'q',
+    responseText: '',
+    backend: 'test',
+    sources: [{ web: { uri: 'https://a.example/' } }, { web: { uri: 'https://b.example/' } }],
+    supports: [],
+  };
+  assert.equal(dedupeSources(result), result);
+});
@@ -0,0 +1,63 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { GoogleWebSearchMCP } from '../src/server.js';
+import { ClientIdentity, ClientRegistry } from '../src/clients.js';
+import { isolateConfig, registerTestBackend } from './helpers.js';
+
+await isolateConfig();
+
+let searches = 0;
+registerTestBackend('server-test', async (query) => {
+  searches++;
+  return { query, responseText: `Answer to ${query}`, sources: [], supports: [], backend: 'server-test' };
+});
+
+const ALICE_TOKEN = 'alice-token-0123456789';
+
+/** Connects an MCP client to a server for alice, whose daily budget is two searches. */
+async function connect(): Promise<Client> {
+  const mcp = new GoogleWebSearchMCP({
+    backend: 'server-test',
+    fallback: [],
+    cache: null,
+    resolver: null,
+    generation: { defaults: {}, allowedModels: ['test-model'] },
+  });
+  const clients = new ClientRegistry([{ name: 'alice', token: ALICE_TOKEN, dailyBudget: 2 }]);
+  Object.assign(mcp, { clients });
+  const internals = mcp as unknown as { createServer(client: ClientIdentity | null): Server };
+  const server = internals.createServer(clients.authenticate(ALICE_TOKEN));
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  after(() => client.close());
+  return client;
+}
+
+test('invalid arguments are rejected before the client budget is charged', async () => {
+  const client = await connect();
+  const call = async (name: string, args: Record<string, unknown>) =>
+    (await client.callTool({ name, arguments: args })) as CallToolResult;
+
+  const invalid = [
+    await call('google_web_search', { query: 'q', model: 'gemini-ultra-expensive' }),
+    await call('google_web_search', { query: 'q', sites: ['not a domain'] }),
+    await call('google_web_search', { query: 'q', temperature: 5 }),
+    await call('google_web_search_batch', { queries: ['a', 'b'], topP: 2 }),
+    await call('google_deep_research', { question: 'q', timeRange: 'decade' }),
+  ];
+  for (const result of invalid) {
+    assert.equal(result.isError, true);
+  }
+  assert.equal(searches, 0);
+
+  assert.equal((await call('google_web_search', { query: 'first' })).isError, undefined);
+  assert.equal((await call('google_web_search', { query: 'second', model: 'test-model' })).isError, undefined);
+  await assert.rejects(call('google_web_search', { query: 'third' }), /budget/i);
+  assert.equal(searches, 2);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionStore, validateSessionId } from '../src/sessions.js';
+import { buildContents } from '../src/backend.js';
+import { InvalidArgumentError } from '../src/errors.js';
+
+const alice = { name: 'alice' };
+const bob = { name: 'bob' };
+const turn = (n: number) => ({ query: `q${n}`, answer: `a${n}`, sources: [] });
+
+test('keeps a bounded, expiring history per client session', () => {
+  const store = new SessionStore({ maxSessions: 2, maxTurns: 2, ttlMs: 1000 });
+  store.append(alice, 's1', turn(1), 0);
+  store.append(alice, 's1', turn(2), 100);
+  store.append(alice, 's1', turn(3), 200);
+  assert.deepEqual(store.history(alice, 's1', 300).map((t) => t.query), ['q2', 'q3']);
+
+  // Sessions are scoped to the client that created them
+  assert.deepEqual(store.history(bob, 's1', 300), []);
+
+  // Idle sessions expire
+  assert.deepEqual(store.history(alice, 's1', 1500), []);
+
+  // The least recently used session is evicted
+  store.append(alice, 'a', turn(1), 2000);
+  store.append(alice, 'b', turn(1), 2001);
+  store.history(alice, 'a', 2002);
+  store.append(alice, 'a', turn(2), 2003);
+  store.append(alice, 'c', turn(1), 2004);
+  assert.equal(store.history(alice, 'b', 2005).length, 0);
+  assert.equal(store.history(alice, 'a', 2005).length, 2);
+
+  assert.equal(store.reset(alice, 'a', 2006), 2);
+  assert.equal(store.reset(alice, 'a', 2006), 0);
+  assert.throws(() => validateSessionId('has spaces'), InvalidArgumentError);
+});
+
+test('sends earlier turns as alternating user and model contents', () => {
+  const contents = buildContents('and in 2024?', [
+    { query: 'best laptop 2023', answer: 'The X1.', sources: [{ web: { uri: 'https://a.example/', title: 'A' } }] },
+  ]);
+  assert.deepEqual(contents, [
+    { role: 'user', parts: [{ text: 'best laptop 2023' }] },
+    { role: 'model', parts: [{ text: 'The X1.\n\nSources:\n[1] A (https://a.example/)' }] },
+    { role: 'user', parts: [{ text: 'and in 2024?' }] },
+  ]);
+});
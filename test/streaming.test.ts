@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectStream } from '../src/backend.js';
+import { CodeAssistBackend } from '../src/backends/codeassist.js';
+import { UpstreamError } from '../src/errors.js';
+import { createTestService, isolateConfig, registerTestBackend } from './helpers.js';
+
+await isolateConfig();
+
+async function* chunks() {
+  yield { text: 'Tokio is ' };
+  yield { text: 'popular.', groundingMetadata: { groundingChunks: [{ web: { uri: 'https://a.example/' } }] } };
+  yield {
+    groundingMetadata: {
+      groundingSupports: [{ segment: { startIndex: 0, endIndex: 17 }, groundingChunkIndices: [0] }],
+    },
+  };
+}
+
+test('collects streamed text and the final grounding metadata', async () => {
+  const received: string[] = [];
+  const answer = await collectStream(chunks(), (chunk) => chunk, (text) => received.push(text));
+  assert.deepEqual(received, ['Tokio is ', 'popular.']);
+  assert.equal(answer.text, 'Tokio is popular.');
+  assert.equal(answer.sources.length, 1);
+  assert.deepEqual(answer.supports[0].groundingChunkIndices, [0]);
+});
+
+test('streams through the search service without affecting the cache key', async () => {
+  const seen: Array<((text: string) => void) | undefined> = [];
+  registerTestBackend('stream-test', async (query, options) => {
+    seen.push(options.onText);
+    const answer = await collectStream(chunks(), (chunk) => chunk, options.onText);
+    return { query, responseText: answer.text, sources: answer.sources, supports: answer.supports, backend: 'stream-test' };
+  });
+  const cached = new Map<string, unknown>();
+  const service = createTestService('stream-test', {
+    cache: {
+      get: async (key: string) => cached.get(key) ?? null,
+      set: async (key: string, value: unknown) => void cached.set(key, value),
+    } as never,
+  });
+
+  let streamed = '';
+  const result = await service.search('rust runtimes', { onText: (text) => (streamed += text) });
+  assert.equal(streamed, 'Tokio is popular.');
+  assert.equal(result.supports.length, 1);
+
+  // The same search without a listener is served from the cache
+  await service.search('rust runtimes');
+  assert.equal(seen.length, 1);
+  assert.equal([...cached.keys()][0].includes('onText'), false);
+});
+
+test('reports a malformed Code Assist stream as an upstream error', async (t) => {
+  const body = 'data: {"response":{"candidates":[{"content":{"parts":[{"text":"Tokio"}]}}]}}\n\ndata: {"resp\n\n';
+  t.mock.method(globalThis, 'fetch', async () => new Response(body, { headers: { 'content-type': 'text/event-stream' } }));
+  const backend = new CodeAssistBackend();
+  Object.assign(backend, {
+    authClient: { getAccessToken: async () => ({ token: 'test-token' }) },
+    projectId: 'test-project',
+  });
+
+  const received: string[] = [];
+  await assert.rejects(
+    backend.search('rust runtimes', { onText: (text) => received.push(text) }),
+    (error: UpstreamError) => error instanceof UpstreamError && /malformed streamed response/.test(error.message)
+  );
+  assert.deepEqual(received, ['Tokio']);
+});
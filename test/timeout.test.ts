@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestCancelledError, RequestTimeoutError } from '../src/search.js';
+import { createTestService, isolateConfig, registerTestBackend } from './helpers.js';
+
+await isolateConfig();
+
+const signals: AbortSignal[] = [];
+
+// Never answers; rejects like a fetch would once its request is aborted
+registerTestBackend('hang-test', (_query, options) => {
+  signals.push(options.signal!);
+  return new Promise((_, reject) => {
+    // Stands in for the open connection that keeps the process alive
+    const connection = setTimeout(() => {}, 10_000);
+    options.signal!.addEventListener('abort', () => {
+      clearTimeout(connection);
+      reject(options.signal!.reason);
+    });
+  });
+});
+
+const createService = (timeoutMs?: number) => createTestService('hang-test', { timeoutMs });
+
+test('aborts the upstream request when the search times out', async () => {
+  const service = createService(60_000);
+  await assert.rejects(
+    service.search('slow query', { timeoutMs: 50 }),
+    (error: RequestTimeoutError) => error instanceof RequestTimeoutError && error.timeoutMs === 50 && error.exitCode === 7
+  );
+  assert.equal(signals.at(-1)!.aborted, true);
+});
+
+test('reports a cancelled search distinctly from a timeout', async () => {
+  const service = createService(0);
+  const controller = new AbortController();
+  const searching = service.search('slow query', { signal: controller.signal });
+  setTimeout(() => controller.abort(), 20);
+  await assert.rejects(searching, RequestCancelledError);
+  assert.equal(signals.at(-1)!.aborted, true);
+
+  // An already cancelled call never reaches the backend
+  const count = signals.length;
+  await assert.rejects(service.search('slow query', { signal: controller.signal }), RequestCancelledError);
+  assert.equal(signals.length, count);
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GoogleGenAI } from '@google/genai';
+import { AuthClient, OAuth2Client } from 'google-auth-library';
+import { VertexBackend } from '../src/backends/vertex.js';
+import { loadConfig } from '../src/config.js';
+import { ProjectNotConfiguredError } from '../src/errors.js';
+import { isolateConfig } from './helpers.js';
+
+await isolateConfig();
+
+test('requires a Google Cloud project before authenticating', async () => {
+  await loadConfig();
+  await assert.rejects(
+    new VertexBackend().initialize(),
+    (error: ProjectNotConfiguredError) =>
+      error instanceof ProjectNotConfiguredError && error.hint!.includes('GOOGLE_CLOUD_LOCATION')
+  );
+});
+
+test('searches Vertex AI in the configured project and location and returns its grounding', async (t) => {
+  process.env.GOOGLE_CLOUD_PROJECT = 'test-project';
+  process.env.GOOGLE_CLOUD_LOCATION = 'europe-west4';
+  t.after(() => {
+    delete process.env.GOOGLE_CLOUD_PROJECT;
+    delete process.env.GOOGLE_CLOUD_LOCATION;
+  });
+  await loadConfig();
+
+  const authClient = new OAuth2Client();
+  authClient.setCredentials({ access_token: 'test-token', expiry_date: Date.now() + 3_600_000 });
+  class TestVertexBackend extends VertexBackend {
+    protected override async getAuthClient(): Promise<AuthClient> {
+      return authClient;
+    }
+  }
+
+  const requests: Array<{ url: string; authorization: string | null; body: unknown }> = [];
+  t.mock.method(globalThis, 'fetch', async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push({
+      url: String(input instanceof Request ? input.url : input),
+      authorization: new Headers(init?.headers).get('authorization'),
+      body: JSON.parse(String(init?.body)),
+    });
+    return Response.json({
+      candidates: [{
+        content: { role: 'model', parts: [{ text: 'Tokio is the most used async runtime.' }] },
+        groundingMetadata: {
+          groundingChunks: [{ web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/Tk01', title: 'tokio.rs' } }],
+          groundingSupports: [
+            { segment: { endIndex: 37, text: 'Tokio is the most used async runtime.' }, groundingChunkIndices: [0], confidenceScores: [0.9] },
+          ],
+        },
+      }],
+    });
+  });
+
+  const backend = new TestVertexBackend();
+  await backend.initialize();
+  assert.equal((backend as unknown as { ai: GoogleGenAI }).ai.vertexai, true);
+
+  const result = await backend.search('rust async runtime', {});
+  assert.equal(requests.length, 1);
+  assert.equal(
+    requests[0].url,
+    'https://europe-west4-aiplatform.googleapis.com/v1beta1/projects/test-project/locations/europe-west4/publishers/google/models/gemini-2.5-flash:generateContent'
+  );
+  assert.equal(requests[0].authorization, 'Bearer test-token');
+  assert.deepEqual((requests[0].body as { tools: unknown }).tools, [{ googleSearch: {} }]);
+  assert.deepEqual(result, {
+    query: 'rust async runtime',
+    responseText: 'Tokio is the most used async runtime.',
+    sources: [{ web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/Tk01', title: 'tokio.rs' } }],
+    supports: [
+      { segment: { endIndex: 37, text: 'Tokio is the most used async runtime.' }, groundingChunkIndices: [0], confidenceScores: [0.9] },
+    ],
+    backend: 'vertex',
+    model: 'gemini-2.5-flash',
+  });
+});